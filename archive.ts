@@ -0,0 +1,181 @@
+/**
+ * Archives of unpushed agent work, taken before cleanup deletes a worktree.
+ *
+ * Each archive is a directory .lb/archive/<ID>/<timestamp>/ holding:
+ *   manifest.json     — branch, base, HEAD, what was saved
+ *   commits.bundle    — commits not on any remote (git bundle)
+ *   uncommitted.patch — dirty and untracked files (binary diff against HEAD)
+ *   transcript.md     — the session's transcript at cleanup time
+ *
+ * An archive can be restored into a fresh worktree: the bundle is fetched and
+ * checked out, then the patch applied on top.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs"
+import type { PluginInput } from "@opencode-ai/plugin"
+import type { AgentEntry } from "./registry"
+import { fetchMessages, renderMarkdown } from "./transcript"
+
+type Shell = PluginInput["$"]
+
+export interface ArchiveManifest {
+  issueId: string
+  branch: string
+  baseBranch?: string
+  head: string
+  archivedAt: string
+  uncommittedFiles: number
+  unpushedCommits: number
+  files: string[]
+}
+
+/**
+ * Save uncommitted changes and unpushed commits from the agent's worktree.
+ * Returns null when there is nothing to save; throws if saving fails so the
+ * caller can keep the worktree.
+ */
+export async function archiveWorktree(
+  $: Shell,
+  directory: string,
+  agent: AgentEntry,
+): Promise<{ path: string; manifest: ArchiveManifest } | null> {
+  const wt = agent.worktreePath
+  if (agent.branch === "(no worktree)" || !wt || !existsSync(wt)) return null
+
+  const git = (...args: string[]) => $`git -C ${wt} ${args}`.quiet()
+  const dirty = (await git("status", "--porcelain").text()).split("\n").filter(Boolean)
+  // Commits reachable from HEAD but from no remote-tracking branch
+  const notOnRemote = ["HEAD", "--not", "--remotes", ...(agent.baseBranch ? [agent.baseBranch] : [])]
+  const unpushed = (await git("rev-list", ...notOnRemote).text()).split("\n").filter(Boolean)
+  if (dirty.length === 0 && unpushed.length === 0) return null
+
+  const archivedAt = new Date().toISOString()
+  const path = `${directory}/.lb/archive/${agent.issueId}/${archivedAt.replace(/[:.]/g, "-")}`
+  mkdirSync(path, { recursive: true })
+  const files: string[] = []
+
+  if (unpushed.length > 0) {
+    // Bundle the branch ref so restore can fetch it by name
+    await git("branch", "-f", `lb-archive/${agent.issueId}`, "HEAD")
+    try {
+      await git(
+        "bundle", "create", `${path}/commits.bundle`,
+        `refs/heads/lb-archive/${agent.issueId}`, "--not", "--remotes",
+        ...(agent.baseBranch ? [agent.baseBranch] : []),
+      )
+    } finally {
+      await $`git -C ${wt} branch -D lb-archive/${agent.issueId}`.quiet().nothrow()
+    }
+    files.push("commits.bundle")
+  }
+
+  if (dirty.length > 0) {
+    // Intent-to-add makes untracked files show up in the diff
+    await git("add", "--intent-to-add", "--all")
+    const patch = await git("diff", "HEAD", "--binary").text()
+    writeFileSync(`${path}/uncommitted.patch`, patch)
+    files.push("uncommitted.patch")
+  }
+
+  const messages = await fetchMessages(agent.port, agent.sessionId)
+  if (messages !== null) {
+    writeFileSync(`${path}/transcript.md`, renderMarkdown(agent, messages))
+    files.push("transcript.md")
+  }
+
+  const manifest: ArchiveManifest = {
+    issueId: agent.issueId,
+    branch: agent.branch,
+    ...(agent.baseBranch ? { baseBranch: agent.baseBranch } : {}),
+    head: (await git("rev-parse", "HEAD").text()).trim(),
+    archivedAt,
+    uncommittedFiles: dirty.length,
+    unpushedCommits: unpushed.length,
+    files,
+  }
+  writeFileSync(`${path}/manifest.json`, JSON.stringify(manifest, null, 2) + "\n")
+  return { path, manifest }
+}
+
+/**
+ * All archives, newest first (optionally for one issue).
+ */
+export function listArchives(
+  directory: string,
+  issueId?: string,
+): (ArchiveManifest & { path: string })[] {
+  const root = `${directory}/.lb/archive`
+  if (!existsSync(root)) return []
+  const archives: (ArchiveManifest & { path: string })[] = []
+  for (const id of issueId ? [issueId] : readdirSync(root)) {
+    if (!existsSync(`${root}/${id}`)) continue
+    for (const stamp of readdirSync(`${root}/${id}`)) {
+      const path = `${root}/${id}/${stamp}`
+      try {
+        archives.push({ ...JSON.parse(readFileSync(`${path}/manifest.json`, "utf8")), path })
+      } catch {
+        // Silent — not an archive directory (or a half-written one)
+      }
+    }
+  }
+  return archives.sort((a, b) => b.archivedAt.localeCompare(a.archivedAt))
+}
+
+/**
+ * Restore an archive into a fresh worktree on a new branch. Uses the newest
+ * archive for the issue unless `archivedAt` picks one.
+ */
+export async function restoreArchive(
+  $: Shell,
+  directory: string,
+  issueId: string,
+  opts: { archivedAt?: string; branch?: string } = {},
+): Promise<string> {
+  const archive = listArchives(directory, issueId).find(
+    (a) => !opts.archivedAt || a.archivedAt === opts.archivedAt,
+  )
+  if (!archive) {
+    return JSON.stringify({ status: "not_found", issueId, archivedAt: opts.archivedAt })
+  }
+
+  const branch = opts.branch || `${archive.branch}-restored`
+  try {
+    if (archive.baseBranch) {
+      await $`lb worktree create ${branch} --base ${archive.baseBranch}`.quiet()
+    } else {
+      await $`lb worktree create ${branch}`.quiet()
+    }
+    // Worktrees are siblings of the repo root, named after the branch
+    const repoRoot = (await $`git rev-parse --show-toplevel`.quiet().text()).trim()
+    const parentDir = (await $`dirname ${repoRoot}`.quiet().text()).trim()
+    const wt = `${parentDir}/${branch}`
+
+    const steps: string[] = [`worktree ${wt} created`]
+    if (archive.files.includes("commits.bundle")) {
+      await $`git -C ${wt} fetch ${archive.path}/commits.bundle refs/heads/lb-archive/${issueId}`.quiet()
+      await $`git -C ${wt} reset --hard FETCH_HEAD`.quiet()
+      steps.push(`${archive.unpushedCommits} commit(s) restored`)
+    }
+    if (archive.files.includes("uncommitted.patch")) {
+      await $`git -C ${wt} apply --binary ${archive.path}/uncommitted.patch`.quiet()
+      steps.push(`${archive.uncommittedFiles} uncommitted file(s) restored`)
+    }
+
+    return JSON.stringify({
+      status: "restored",
+      issueId,
+      archive: archive.path,
+      branch,
+      worktreePath: wt,
+      actions: steps,
+    })
+  } catch (e: any) {
+    return JSON.stringify({
+      status: "error",
+      issueId,
+      archive: archive.path,
+      branch,
+      error: e?.stderr?.toString().trim() || e?.message || String(e),
+    })
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Autopilot — opt-in dependency-aware auto-dispatch.
+ *
+ * When an agent finishes or its issue closes, blockers may have cleared.
+ * Autopilot re-reads `lb ready`, compares it with the last snapshot, and
+ * enqueues every newly ready todo_refined issue that the finished issue
+ * blocked and that passes the label allowlist. Issues that became ready for
+ * another reason (just created or refined) are left alone. The dispatch
+ * queue enforces the concurrency limit.
+ */
+
+import type { PluginInput } from "@opencode-ai/plugin"
+import type { AgentRegistry } from "./registry"
+import type { DispatchQueue } from "./queue"
+import type { LbConfig } from "./config"
+import { issueLabels } from "./templates"
+import { blockerIds } from "./bundle"
+
+type Shell = PluginInput["$"]
+
+export interface AutopilotResult {
+  trigger: string
+  started: string[]
+  queued: { issueId: string; position: number }[]
+}
+
+export class Autopilot {
+  private known = new Set<string>()
+
+  constructor(
+    private $: Shell,
+    private registry: AgentRegistry,
+    private queue: DispatchQueue,
+    private config: LbConfig["autopilot"],
+  ) {}
+
+  /**
+   * Snapshot the issues that are ready now, so only issues that become ready
+   * later are auto-dispatched.
+   */
+  async prime(): Promise<void> {
+    const ready = await this.readyIssues()
+    this.known = new Set(ready.map((issue) => issueIdOf(issue)))
+  }
+
+  /**
+   * Re-check lb ready after `trigger` finished and enqueue the newly ready
+   * issues it was blocking.
+   */
+  async run(trigger: string): Promise<AutopilotResult> {
+    const ready = await this.readyIssues()
+    const allow = this.config.labels.map((l) => l.toLowerCase())
+
+    const fresh = ready.filter((issue) => {
+      const id = issueIdOf(issue)
+      if (this.known.has(id)) return false
+      if (issue.status && issue.status !== "todo_refined") return false
+      if (this.registry.has(id) || this.queue.has(id)) return false
+      if (allow.length === 0) return true
+      return issueLabels(issue).some((l) => allow.includes(l.toLowerCase()))
+    })
+    this.known = new Set(ready.map((issue) => issueIdOf(issue)))
+
+    const freshIds = new Set<string>()
+    for (const issue of fresh) {
+      const id = issueIdOf(issue)
+      if (await this.blockedBy(id, trigger)) freshIds.add(id)
+    }
+    for (const issueId of freshIds) {
+      this.queue.enqueue({ issueId, prompt: this.config.prompt })
+    }
+    const started = (await this.queue.drain())
+      .map((r) => JSON.parse(r))
+      .filter((r) => r.status === "dispatched" && freshIds.has(r.issueId))
+      .map((r) => r.issueId as string)
+
+    const queued = this.queue
+      .list()
+      .filter((q) => freshIds.has(q.issueId))
+      .map(({ issueId, position }) => ({ issueId, position }))
+
+    return { trigger, started, queued }
+  }
+
+  /**
+   * Whether lb lists `blocker` among the issue's blockers. Unknown (lb show
+   * failed) counts as not blocked, so nothing is dispatched on a guess.
+   */
+  private async blockedBy(issueId: string, blocker: string): Promise<boolean> {
+    try {
+      const issue = JSON.parse((await this.$`lb show ${issueId} --json`.quiet().text()).trim())
+      return blockerIds(issue).includes(blocker)
+    } catch {
+      return false
+    }
+  }
+
+  private async readyIssues(): Promise<any[]> {
+    try {
+      const parsed = JSON.parse((await this.$`lb ready --json`.quiet().text()).trim())
+      return Array.isArray(parsed) ? parsed : []
+    } catch {
+      return []
+    }
+  }
+}
+
+function issueIdOf(issue: any): string {
+  return issue.identifier || issue.id
+}
@@ -0,0 +1,199 @@
+/**
+ * Process backends — how a background agent's opencode serve is run.
+ *
+ *   tmux    — detached tmux session (default). Attach to watch it live.
+ *   process — plain detached child process (nohup), for machines and CI
+ *             without tmux. State is kept in .lb/processes/<name>.json so it
+ *             survives a plugin restart.
+ *   memory  — in-memory fake for tests; nothing is actually spawned.
+ *
+ * Selected per project with `"backend"` in .lb/opencode-lb.json.
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs"
+import type { PluginInput } from "@opencode-ai/plugin"
+
+type Shell = PluginInput["$"]
+
+export type BackendKind = "tmux" | "process" | "memory"
+
+export interface ProcessBackend {
+  readonly kind: BackendKind
+  /** Start `command` detached under `name` in `cwd`, writing combined output to `logFile`. */
+  start(name: string, cwd: string, command: string, logFile: string): Promise<void>
+  isAlive(name: string): Promise<boolean>
+  /** Stop the process. Resolves even if it is already gone. */
+  stop(name: string): Promise<void>
+  /** Last `lines` lines of output. Throws if the process is unknown. */
+  captureOutput(name: string, lines: number): Promise<string>
+  /** Current working directory of the process, or null if unknown. */
+  workingDirectory(name: string): Promise<string | null>
+  /** Shell command a human can run to watch the process. */
+  attachCommand(name: string): string
+}
+
+export class TmuxBackend implements ProcessBackend {
+  readonly kind = "tmux" as const
+
+  constructor(private $: Shell) {}
+
+  async start(name: string, cwd: string, command: string, logFile: string): Promise<void> {
+    // Wrap in bash -c so pipes/redirects work correctly inside tmux
+    // and quiet() to prevent any output bleeding into the current terminal
+    await this.$`tmux new-session -d -s ${name} -c ${cwd} bash -c ${`${command} 2>&1 | tee ${logFile}`}`.quiet()
+  }
+
+  async isAlive(name: string): Promise<boolean> {
+    return (await this.$`tmux has-session -t ${name}`.quiet().nothrow()).exitCode === 0
+  }
+
+  async stop(name: string): Promise<void> {
+    await this.$`tmux kill-session -t ${name}`.quiet().nothrow()
+  }
+
+  async captureOutput(name: string, lines: number): Promise<string> {
+    return (await this.$`tmux capture-pane -t ${name} -p -S -${lines}`.quiet().text()).trim()
+  }
+
+  async workingDirectory(name: string): Promise<string | null> {
+    const path = (
+      await this.$`tmux display-message -p -t ${name} ${"#{pane_current_path}"}`.quiet().nothrow().text()
+    ).trim()
+    return path || null
+  }
+
+  attachCommand(name: string): string {
+    return `tmux attach-session -t ${name}`
+  }
+}
+
+interface ProcessRecord {
+  pid: number
+  cwd: string
+  logFile: string
+}
+
+export class ChildProcessBackend implements ProcessBackend {
+  readonly kind = "process" as const
+
+  constructor(
+    private $: Shell,
+    private stateDir: string,
+  ) {}
+
+  async start(name: string, cwd: string, command: string, logFile: string): Promise<void> {
+    // nohup + & detaches the server from this process; $! is its pid
+    const script = `nohup ${command} >> ${this.$.escape(logFile)} 2>&1 < /dev/null & echo $!`
+    const pid = parseInt((await this.$`bash -c ${script}`.cwd(cwd).quiet().text()).trim(), 10)
+    if (!pid) throw new Error(`Failed to start ${name}: no pid`)
+    mkdirSync(this.stateDir, { recursive: true })
+    writeFileSync(this.recordPath(name), JSON.stringify({ pid, cwd, logFile } satisfies ProcessRecord))
+  }
+
+  async isAlive(name: string): Promise<boolean> {
+    const record = this.read(name)
+    if (!record) return false
+    return (await this.$`kill -0 ${record.pid}`.quiet().nothrow()).exitCode === 0
+  }
+
+  async stop(name: string): Promise<void> {
+    const record = this.read(name)
+    if (!record) return
+    await this.$`kill ${record.pid}`.quiet().nothrow()
+    rmSync(this.recordPath(name), { force: true })
+  }
+
+  async captureOutput(name: string, lines: number): Promise<string> {
+    const record = this.read(name)
+    if (!record) throw new Error(`Unknown process: ${name}`)
+    return (await this.$`tail -n ${lines} ${record.logFile}`.quiet().text()).trim()
+  }
+
+  async workingDirectory(name: string): Promise<string | null> {
+    return this.read(name)?.cwd ?? null
+  }
+
+  attachCommand(name: string): string {
+    const record = this.read(name)
+    return record ? `tail -f ${record.logFile}` : `echo "No process named ${name}"`
+  }
+
+  private recordPath(name: string): string {
+    return `${this.stateDir}/${name}.json`
+  }
+
+  private read(name: string): ProcessRecord | null {
+    const path = this.recordPath(name)
+    if (!existsSync(path)) return null
+    try {
+      return JSON.parse(readFileSync(path, "utf8")) as ProcessRecord
+    } catch {
+      return null
+    }
+  }
+}
+
+interface FakeProcess {
+  cwd: string
+  command: string
+  logFile: string
+  alive: boolean
+  output: string[]
+}
+
+export class MemoryBackend implements ProcessBackend {
+  readonly kind = "memory" as const
+  readonly processes = new Map<string, FakeProcess>()
+
+  async start(name: string, cwd: string, command: string, logFile: string): Promise<void> {
+    if (this.processes.get(name)?.alive) throw new Error(`duplicate session: ${name}`)
+    this.processes.set(name, { cwd, command, logFile, alive: true, output: [] })
+  }
+
+  async isAlive(name: string): Promise<boolean> {
+    return this.processes.get(name)?.alive ?? false
+  }
+
+  async stop(name: string): Promise<void> {
+    this.processes.delete(name)
+  }
+
+  async captureOutput(name: string, lines: number): Promise<string> {
+    const proc = this.processes.get(name)
+    if (!proc) throw new Error(`Unknown process: ${name}`)
+    return proc.output.slice(-lines).join("\n")
+  }
+
+  async workingDirectory(name: string): Promise<string | null> {
+    return this.processes.get(name)?.cwd ?? null
+  }
+
+  attachCommand(name: string): string {
+    return `echo "memory backend: ${name}"`
+  }
+
+  /** Append output lines, as if the process printed them. */
+  write(name: string, ...lines: string[]): void {
+    this.processes.get(name)?.output.push(...lines)
+  }
+
+  /** Simulate a crash: the process stays known but is no longer alive. */
+  crash(name: string): void {
+    const proc = this.processes.get(name)
+    if (proc) proc.alive = false
+  }
+}
+
+/**
+ * Build the backend selected in config. `directory` is the project root.
+ */
+export function createBackend(kind: BackendKind, $: Shell, directory: string): ProcessBackend {
+  switch (kind) {
+    case "process":
+      return new ChildProcessBackend($, `${directory}/.lb/processes`)
+    case "memory":
+      return new MemoryBackend()
+    default:
+      return new TmuxBackend($)
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Issue context bundle for dispatched prompts.
+ *
+ * A background agent working on a sub-issue should see the bigger picture:
+ * the parent epic, its sibling sub-issues (and which already have an agent),
+ * the issues blocking or blocked by it, where a bug was discovered, and the
+ * issue's comments. Everything comes from lb show --json and is trimmed to a
+ * character budget so large epics don't swamp the prompt.
+ */
+
+import type { PluginInput } from "@opencode-ai/plugin"
+import { stripAgentMeta } from "./meta"
+
+type Shell = PluginInput["$"]
+
+interface IssueSummary {
+  id: string
+  title: string
+  status: string
+  description: string
+}
+
+// Related lookups per section — each is an lb show call
+const MAX_RELATED = 10
+
+/**
+ * Build the related-issues section for an issue. `active` holds issue IDs that
+ * currently have a background agent. Returns "" when there is nothing related.
+ */
+export async function buildIssueBundle(
+  $: Shell,
+  issue: any,
+  active: Set<string>,
+  budget: number,
+): Promise<string> {
+  if (!issue || budget <= 0) return ""
+  const selfId = issue.identifier || issue.id
+  const cache = new Map<string, any | null>()
+  const show = async (id: string): Promise<any | null> => {
+    if (!cache.has(id)) {
+      try {
+        cache.set(id, JSON.parse((await $`lb show ${id} --json`.quiet().text()).trim()))
+      } catch {
+        cache.set(id, null)
+      }
+    }
+    return cache.get(id)
+  }
+  const summarize = async (ref: any): Promise<IssueSummary | null> => {
+    const id = refId(ref)
+    if (!id) return null
+    // Inline objects with title + status save an lb call
+    const data = typeof ref === "object" && ref.title && ref.status ? ref : await show(id)
+    return {
+      id,
+      title: data?.title ?? "",
+      status: data?.status ?? "unknown",
+      description: stripAgentMeta(data?.description ?? ""),
+    }
+  }
+  const line = (s: IssueSummary) =>
+    `- ${s.id} — ${s.title} [${s.status}]${active.has(s.id) ? " (agent running)" : ""}`
+
+  const sections: string[] = []
+
+  // Parent epic + siblings
+  const parentRef = refs(issue, "parent", "parent_id", "parentId")[0]
+  if (parentRef) {
+    const parent = await show(parentRef)
+    const summary = await summarize(parent ?? parentRef)
+    if (summary) {
+      let section = `### Parent: ${summary.id} — ${summary.title} [${summary.status}]\n`
+      // The epic description gets at most a third of the budget; siblings matter more
+      if (summary.description) section += `${trimToBudget(summary.description, Math.floor(budget / 3))}\n`
+      sections.push(section)
+    }
+
+    const siblingRefs = refs(parent, "children", "subissues", "sub_issues")
+      .filter((id) => id !== selfId)
+      .slice(0, MAX_RELATED)
+    const siblings = (await Promise.all(
+      siblingRefs.map((id) => summarize(findRef(parent, id) ?? id)),
+    )).filter((s): s is IssueSummary => s !== null)
+    if (siblings.length > 0) {
+      sections.push(
+        "### Sibling sub-issues (don't duplicate their work)\n" + siblings.map(line).join("\n") + "\n",
+      )
+    }
+  }
+
+  const related = async (title: string, ...keys: string[]) => {
+    const items = (await Promise.all(
+      refs(issue, ...keys)
+        .slice(0, MAX_RELATED)
+        .map((id) => summarize(findRef(issue, id) ?? id)),
+    )).filter((s): s is IssueSummary => s !== null)
+    if (items.length > 0) sections.push(`### ${title}\n` + items.map(line).join("\n") + "\n")
+  }
+  await related("Blocked by", "blocked_by", "blockedBy")
+  await related("Blocks", "blocks")
+  await related("Discovered from", "discovered_from", "discoveredFrom")
+
+  // Comments, oldest first
+  const comments = Array.isArray(issue.comments) ? issue.comments : []
+  if (comments.length > 0) {
+    const rendered = comments
+      .map((c: any) => {
+        const body = (typeof c === "string" ? c : c?.body ?? "").trim()
+        const author = c?.author?.name ?? c?.author ?? c?.user ?? "unknown"
+        const when = c?.created_at ?? c?.createdAt ?? ""
+        return body ? `- ${author}${when ? ` (${when})` : ""}: ${body}` : ""
+      })
+      .filter(Boolean)
+    if (rendered.length > 0) sections.push("### Comments\n" + rendered.join("\n") + "\n")
+  }
+
+  if (sections.length === 0) return ""
+  return trimToBudget(`## Related issues\n\n${sections.join("\n")}`, budget)
+}
+
+/**
+ * IDs of the issues blocking `issue`.
+ */
+export function blockerIds(issue: any): string[] {
+  return refs(issue, "blocked_by", "blockedBy")
+}
+
+/**
+ * Issue IDs under any of `keys` — a string, an array of strings, or objects
+ * with identifier/id.
+ */
+function refs(issue: any, ...keys: string[]): string[] {
+  if (!issue) return []
+  const ids: string[] = []
+  for (const key of keys) {
+    const value = issue[key]
+    for (const ref of Array.isArray(value) ? value : value ? [value] : []) {
+      const id = refId(ref)
+      if (id && !ids.includes(id)) ids.push(id)
+    }
+  }
+  return ids
+}
+
+/**
+ * The inline object for `id` in any array field of `issue`, if present.
+ */
+function findRef(issue: any, id: string): any | undefined {
+  for (const value of Object.values(issue ?? {})) {
+    if (!Array.isArray(value)) continue
+    const found = value.find((ref) => typeof ref === "object" && refId(ref) === id)
+    if (found) return found
+  }
+  return undefined
+}
+
+function refId(ref: any): string | null {
+  if (typeof ref === "string") return ref
+  return ref?.identifier ?? ref?.id ?? null
+}
+
+function trimToBudget(text: string, budget: number): string {
+  if (text.length <= budget) return text
+  const marker = "\n… (related context truncated)"
+  return text.slice(0, Math.max(0, budget - marker.length)).trimEnd() + marker
+}
@@ -0,0 +1,132 @@
+/**
+ * Automatic cleanup policy for completed agents.
+ *
+ * Finished agents otherwise keep their server process and worktree until
+ * someone calls lb_cleanup. Cleanup happens in two phases:
+ *
+ *   1. park — once an agent has been finished (verified) for `idleMinutes`,
+ *      its server process is stopped. The worktree stays; lb_revive restarts
+ *      the server and resumes the session.
+ *   2. cleanup — `graceMinutes` after parking, cleanupAgent deletes the
+ *      worktree and sets the configured lb status.
+ *
+ * Both phases re-check the policy (PR open, no uncommitted changes), and both
+ * are announced through the lifecycle emitter. Evaluated by the background poller.
+ */
+
+import type { PluginInput } from "@opencode-ai/plugin"
+import type { AgentRegistry } from "./registry"
+import type { LifecycleEmitter } from "./lifecycle"
+import type { ProcessBackend } from "./backend"
+import type { LbConfig } from "./config"
+import type { PortRange } from "./ports"
+import { type CleanupOptions, cleanupAgent, restartAgent } from "./orchestrator"
+import { verifyCompletion } from "./verify"
+
+type Shell = PluginInput["$"]
+
+export class CleanupPolicy {
+  // When each agent was last announced as finished
+  private finishedAt = new Map<string, number>()
+
+  constructor(
+    private $: Shell,
+    private backend: ProcessBackend,
+    private registry: AgentRegistry,
+    private emitter: LifecycleEmitter,
+    private config: LbConfig["cleanup"],
+    private ports: PortRange,
+    private cleanupOptions: CleanupOptions,
+  ) {
+    emitter.on("agent:finished", ({ issueId }) => {
+      if (!this.finishedAt.has(issueId)) this.finishedAt.set(issueId, Date.now())
+    })
+    // Working again (or waiting on input) restarts the idle clock; a cleaned up agent has none
+    for (const event of ["agent:running", "agent:idle", "agent:restarted", "agent:cleaned"] as const) {
+      emitter.on(event, ({ issueId }) => {
+        this.finishedAt.delete(issueId)
+      })
+    }
+  }
+
+  /**
+   * Park agents finished for long enough, and clean up parked agents whose
+   * grace period has passed. Returns the actions taken.
+   */
+  async evaluate(): Promise<string[]> {
+    if (!this.config.enabled) return []
+    const now = Date.now()
+    const actions: string[] = []
+
+    for (const [issueId, agent] of [...this.registry.entries()]) {
+      if (agent.parkedAt) {
+        if (now - Date.parse(agent.parkedAt) < this.config.graceMinutes * 60_000) continue
+        const blocked = await this.blockedBy(issueId)
+        if (blocked) {
+          actions.push(`${issueId}: cleanup skipped — ${blocked}`)
+          continue
+        }
+        await cleanupAgent(
+          this.$, this.backend, this.registry, this.emitter, issueId, this.config.status, true, this.cleanupOptions,
+        )
+        actions.push(`${issueId}: cleaned up (${this.config.status})`)
+        continue
+      }
+
+      const finishedAt = this.finishedAt.get(issueId)
+      if (finishedAt === undefined || now - finishedAt < this.config.idleMinutes * 60_000) continue
+      const blocked = await this.blockedBy(issueId)
+      if (blocked) continue
+
+      await this.backend.stop(agent.tmuxSession)
+      this.registry.set(issueId, { ...agent, parkedAt: new Date(now).toISOString() })
+      await this.emitter.emit("agent:parked", {
+        issueId,
+        branch: agent.branch,
+        port: agent.port,
+        reason: `finished and idle for ${this.config.idleMinutes}m — server stopped, worktree deleted in ${this.config.graceMinutes}m unless revived with lb_revive`,
+      })
+      actions.push(`${issueId}: parked`)
+    }
+    return actions
+  }
+
+  /**
+   * Undo parking: restart the server in the kept worktree and resume the session.
+   */
+  async revive(issueId: string): Promise<string> {
+    const agent = this.registry.get(issueId)
+    if (!agent) return JSON.stringify({ status: "not_found", issueId })
+    if (!agent.parkedAt) return JSON.stringify({ status: "not_parked", issueId })
+
+    const { parkedAt: _parkedAt, ...rest } = agent
+    this.registry.set(issueId, rest)
+    this.finishedAt.delete(issueId)
+    const result = JSON.parse(
+      await restartAgent(this.$, this.backend, this.registry, this.emitter, issueId, "revived after auto cleanup", this.ports),
+    )
+    if (result.status === "error") {
+      // Still parked — the worktree is kept until the next grace check
+      this.registry.set(issueId, agent)
+    }
+    return JSON.stringify(result)
+  }
+
+  /**
+   * Why the policy forbids cleaning up this agent right now, or null.
+   */
+  private async blockedBy(issueId: string): Promise<string | null> {
+    const agent = this.registry.get(issueId)
+    if (!agent) return "not registered"
+    const completion = await verifyCompletion(this.$, agent)
+    // Partially recovered: nothing to check the policy against, and nothing safe to delete
+    if (completion.verdict === "worktree_unknown") return "worktree unknown"
+    if (this.config.requirePr && completion.verdict !== "done_pr_open" && completion.verdict !== "done_no_worktree") {
+      return "no open PR"
+    }
+    if (this.config.keepIfUncommitted && (completion.uncommittedChanges ?? 0) > 0) {
+      return `${completion.uncommittedChanges} uncommitted change(s)`
+    }
+    return null
+  }
+}
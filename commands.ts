@@ -13,9 +13,9 @@ export const COMMANDS: Record<string, { template: string; description?: string }
       "Use the lb_agents tool to list all running background agents. Show their status, port, branch, and whether they're reachable.",
   },
   "lb:dispatch": {
-    description: "Dispatch issue to background agent (issue ID)",
+    description: "Dispatch issue to background agent (issue ID, optional template name)",
     template:
-      'Run `lb show $ARGUMENTS` to get the issue details, then use lb_dispatch to spin up a background agent for it. Include the full issue description and instructions to commit, push, create a PR, and run `lb update $ARGUMENTS --status in_review` when done.',
+      "Use lb_dispatch to start a background agent for $ARGUMENTS. The first argument is the issue ID; pass a second one, if given, as `template`. Use `Implement this issue.` as the prompt.",
   },
   "lb:check": {
     description: "Check on a background agent (issue ID)",
@@ -42,7 +42,7 @@ export const COMMANDS: Record<string, { template: string; description?: string }
   },
 }
 
-export const AGENT_CONFIG: Record<string, { description?: string; prompt: string; mode: string }> = {
+export const AGENT_CONFIG: Record<string, { description?: string; prompt: string; mode: "subagent" | "primary" | "all" }> = {
   "lb-task-agent": {
     description:
       "Autonomous agent that finds and completes ready lb issues. Handles the full cycle: claim, implement, commit, push, PR, status update.",
@@ -0,0 +1,159 @@
+/**
+ * Project-level plugin configuration.
+ * Read from .lb/opencode-lb.json in the project root. Missing file or keys
+ * fall back to defaults, so a project without a config behaves as before.
+ */
+
+import type { BackendKind } from "./backend"
+import type { PortRange } from "./ports"
+import type { Budget } from "./usage"
+import type { AgentTimeouts } from "./timeouts"
+import type { SinkConfig } from "./sinks"
+
+export interface LbConfig {
+  /** How agent servers are run: "tmux" (default), "process" (no tmux needed) or "memory" (tests) */
+  backend: BackendKind
+  /** Maximum number of background agents running at once */
+  maxConcurrent: number
+  /** Port range opencode serve instances are started on */
+  ports: PortRange
+  /** Max characters of related-issue context (parent, siblings, blockers, comments) in dispatched prompts */
+  contextBudget: number
+  /** Export every agent's full transcript to .lb/transcripts when it is cleaned up */
+  transcriptOnCleanup: boolean
+  /** Autopilot: dispatch issues automatically when their blockers finish (opt-in) */
+  autopilot: {
+    enabled: boolean
+    /** Only auto-dispatch issues with one of these labels (empty = any label) */
+    labels: string[]
+    /** Task prompt for auto-dispatched agents (the template supplies the rest) */
+    prompt: string
+  }
+  /** Default per-agent spend limit (null = unlimited); lb_dispatch can override per agent */
+  budget: Budget & {
+    /** How often agents with a budget are measured */
+    intervalMs: number
+  }
+  /** Default per-agent runtime/inactivity limits (null = none); lb_dispatch can override per agent */
+  timeouts: AgentTimeouts & {
+    /** How often agents with a limit are checked */
+    intervalMs: number
+  }
+  /** Stall detection: emits agent:stalled for busy agents that aren't progressing */
+  stall: {
+    enabled: boolean
+    intervalMs: number
+    /** Identical tool calls (or errors) in a row that count as a stall */
+    repeatThreshold: number
+    /** Busy with no new messages or tool activity for this long */
+    noProgressMinutes: number
+  }
+  /** Permission prompts from background agents: relayed to the coordinator */
+  permissions: {
+    enabled: boolean
+    intervalMs: number
+    /** Bash commands approved without asking (`*` wildcards); lb_dispatch can add per agent */
+    autoApprove: string[]
+  }
+  /** Automatic cleanup of finished agents (opt-in) */
+  cleanup: {
+    enabled: boolean
+    /** Minutes an agent must stay finished before its server is stopped (parked) */
+    idleMinutes: number
+    /** Minutes a parked agent keeps its worktree — lb_revive works until then */
+    graceMinutes: number
+    /** Only clean up agents whose PR is open */
+    requirePr: boolean
+    /** Never clean up a worktree with uncommitted changes */
+    keepIfUncommitted: boolean
+    /** lb status set when the worktree is deleted */
+    status: "in_review" | "todo_refined" | "done"
+  }
+  /** Lifecycle events delivered outside OpenCode: .lb/hooks scripts and webhooks */
+  hooks: SinkConfig
+  /** Crash watchdog: restarts a dead opencode serve in place */
+  watchdog: {
+    enabled: boolean
+    intervalMs: number
+    /** Restarts per agent before giving up */
+    maxRestarts: number
+  }
+}
+
+export const DEFAULT_CONFIG: LbConfig = {
+  backend: "tmux",
+  maxConcurrent: 3,
+  ports: { min: 4100, max: 4999 },
+  contextBudget: 4000,
+  transcriptOnCleanup: false,
+  autopilot: {
+    enabled: false,
+    labels: [],
+    prompt: "Implement this issue.",
+  },
+  budget: {
+    maxCost: null,
+    maxTokens: null,
+    intervalMs: 30_000,
+  },
+  timeouts: {
+    maxRuntimeMinutes: null,
+    inactivityMinutes: null,
+    cleanup: false,
+    intervalMs: 60_000,
+  },
+  stall: {
+    enabled: true,
+    intervalMs: 60_000,
+    repeatThreshold: 3,
+    noProgressMinutes: 10,
+  },
+  permissions: {
+    enabled: true,
+    intervalMs: 10_000,
+    autoApprove: [],
+  },
+  cleanup: {
+    enabled: false,
+    idleMinutes: 15,
+    graceMinutes: 60,
+    requirePr: true,
+    keepIfUncommitted: true,
+    status: "in_review",
+  },
+  hooks: {
+    scripts: true,
+    scriptTimeoutMs: 30_000,
+    webhooks: [],
+  },
+  watchdog: {
+    enabled: true,
+    intervalMs: 60_000,
+    maxRestarts: 3,
+  },
+}
+
+/**
+ * Load the project config, merged over the defaults.
+ * Nested sections are merged key by key, so a partial section keeps the
+ * remaining defaults.
+ */
+export async function loadConfig(directory: string): Promise<LbConfig> {
+  try {
+    const raw = (await Bun.file(`${directory}/.lb/opencode-lb.json`).json()) as Record<string, any>
+    const merged: Record<string, any> = { ...DEFAULT_CONFIG }
+    for (const [key, value] of Object.entries(raw)) {
+      const base = merged[key]
+      merged[key] =
+        isPlainObject(base) && isPlainObject(value) ? { ...base, ...value } : value
+    }
+    return merged as LbConfig
+  } catch {
+    // Silent — no config file (or invalid JSON) means defaults
+    return { ...DEFAULT_CONFIG }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
@@ -153,10 +153,15 @@ Tools for parallel background agents:
 | Tool | Purpose |
 |------|---------|
 | \`lb_dispatch\` | Dispatch issue to background agent (creates worktree, launches server, sends prompt) |
+| \`lb_dispatch_many\` | Enqueue several issues (IDs or top N ready) — respects the concurrency limit |
 | \`lb_check\` | Check what a background agent is doing |
 | \`lb_followup\` | Send follow-up instructions to a running agent |
 | \`lb_abort\` | Abort agent's current operation |
+| \`lb_permit\` | Approve or deny a permission request an agent is waiting on |
 | \`lb_cleanup\` | Kill tmux, delete worktree, update status |
+| \`lb_transcript\` | Export an agent's full conversation to a file |
+| \`lb_archives\` | List or restore work archived by cleanup |
+| \`lb_revive\` | Restart an agent parked by auto cleanup |
 | \`lb_agents\` | List all running background agents |
 
 **Dispatch workflow:**
@@ -224,7 +229,8 @@ export async function getLbContext(
         env: { ...process.env, LB_TIMEOUT_MS: String(timeoutMs) },
       })
       const result = await Promise.race([
-        proc.exited.then(async () => {
+        proc.exited.then(async (code) => {
+          if (code !== 0) throw new Error(`lb ${args[0]} exited ${code}`)
           return new TextDecoder().decode(await new Response(proc.stdout).arrayBuffer())
         }),
         new Promise<never>((_, reject) => {
@@ -5,13 +5,18 @@
  * Usage: bun run dashboard.ts [--port 3333]
  *
  * Auto-discovers all projects with .lb directories under $HOME.
- * Groups issues by project, shows active agents, in review, ready, done.
+ * Groups issues by project, shows active agents (with cost and tokens), in review, ready, done.
  * Polls /api/state every 3 seconds.
  */
 
 import { readdir, stat } from "fs/promises"
 import { join, basename } from "path"
 import { homedir } from "os"
+import { $ } from "bun"
+import { parseAgentMeta } from "./meta"
+import { loadConfig } from "./config"
+import { createBackend } from "./backend"
+import { type AgentUsage, summarizeUsage } from "./usage"
 
 const DASHBOARD_PORT = parseInt(process.argv.find((_, i, a) => a[i - 1] === "--port") ?? "3333", 10)
 const HOME = homedir()
@@ -53,12 +58,15 @@ async function getLbState(cwd: string): Promise<any[]> {
   }
 }
 
-async function probeAgent(port: number, sessionId: string): Promise<{ status: string; messageCount: number; lastMessage: string | null }> {
+async function probeAgent(
+  port: number,
+  sessionId: string,
+): Promise<{ status: string; messageCount: number; lastMessage: string | null; usage: AgentUsage | null }> {
   try {
     const resp = await fetch(`http://localhost:${port}/session/${sessionId}/message`, { signal: AbortSignal.timeout(2000) })
-    if (!resp.ok) return { status: "unreachable", messageCount: 0, lastMessage: null }
+    if (!resp.ok) return { status: "unreachable", messageCount: 0, lastMessage: null, usage: null }
     const messages = (await resp.json()) as any[]
-    if (messages.length === 0) return { status: "idle", messageCount: 0, lastMessage: null }
+    if (messages.length === 0) return { status: "idle", messageCount: 0, lastMessage: null, usage: null }
 
     const last = messages[messages.length - 1]
     const role = last?.info?.role || last?.role
@@ -71,26 +79,12 @@ async function probeAgent(port: number, sessionId: string): Promise<{ status: st
     else if (role === "assistant" && msgStatus === "streaming") status = "running"
     else if (role === "user") status = "running"
 
-    return { status, messageCount: messages.length, lastMessage: lastText }
+    return { status, messageCount: messages.length, lastMessage: lastText, usage: summarizeUsage(messages) }
   } catch {
-    return { status: "unreachable", messageCount: 0, lastMessage: null }
+    return { status: "unreachable", messageCount: 0, lastMessage: null, usage: null }
   }
 }
 
-function parseAgentMeta(desc: string): { port: number; tmux: string; session: string } | null {
-  const portMatch = desc.match(/Port:\s*(\d+)/)
-  const tmuxMatch = desc.match(/tmux:\s*(\S+?)(?:,|$)/)
-  const sessionMatch = desc.match(/session:\s*(\S+?)(?:,|$)/)
-  if (portMatch && tmuxMatch && sessionMatch) {
-    return {
-      port: parseInt(portMatch[1], 10),
-      tmux: tmuxMatch[1],
-      session: sessionMatch[1],
-    }
-  }
-  return null
-}
-
 // Cache project paths — rescan every 60 seconds
 let cachedProjects: string[] = []
 let lastScan = 0
@@ -115,7 +109,7 @@ async function buildState() {
           const meta = parseAgentMeta(issue.description || "")
           let agent = null
           if (meta && issue.status === "in_progress") {
-            agent = { ...meta, ...(await probeAgent(meta.port, meta.session)) }
+            agent = { ...meta, project: projectPath, ...(await probeAgent(meta.port, meta.session)) }
           }
           return { ...issue, agent }
         })
@@ -411,16 +405,22 @@ function pulseClass(agent) {
   return 'dead'
 }
 
+function formatTokens(n) {
+  if (n >= 1e6) return (n / 1e6).toFixed(1) + 'M'
+  if (n >= 1e3) return Math.round(n / 1e3) + 'k'
+  return String(n)
+}
+
 function esc(s) {
   if (!s) return ''
   return s.replace(/&/g,'&amp;').replace(/</g,'&lt;').replace(/>/g,'&gt;')
 }
 
-function openTmux(session) {
-  fetch('/api/tmux', {
+function openAgent(session, project) {
+  fetch('/api/attach', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ session: session })
+    body: JSON.stringify({ session: session, project: project })
   })
 }
 
@@ -434,10 +434,12 @@ function renderCard(issue) {
       '<span class="label">status:</span> <span class="val ' + a.status + '">' + a.status + '</span>' +
       ' &middot; <span class="label">port:</span> <span class="val">' + a.port + '</span>' +
       ' &middot; <span class="label">msgs:</span> <span class="val">' + a.messageCount + '</span>' +
+      (a.usage ? ' &middot; <span class="label">cost:</span> <span class="val">$' + a.usage.cost.toFixed(2) + '</span>' +
+        ' &middot; <span class="label">tokens:</span> <span class="val">' + formatTokens(a.usage.totalTokens) + '</span>' : '') +
       (a.lastMessage ? '<div class="last-msg">' + esc(a.lastMessage) + '</div>' : '') +
       '</div>' +
       '<div class="card-actions">' +
-        '<span class="btn-tmux" onclick="openTmux(\\'' + esc(a.tmux) + '\\')">open tmux</span>' +
+        '<span class="btn-tmux" onclick="openAgent(\\'' + esc(a.tmux) + '\\', \\'' + esc(a.project) + '\\')">attach</span>' +
       '</div>'
   }
   return '<div class="card' + (isActive ? ' active-card' : '') + '">' +
@@ -557,17 +559,22 @@ Bun.serve({
       })
     }
 
-    // Open tmux session in a new Terminal.app window
-    if (url.pathname === "/api/tmux" && req.method === "POST") {
+    // Attach to an agent's process (tmux session or log tail) in a new Terminal.app window
+    if (url.pathname === "/api/attach" && req.method === "POST") {
       try {
-        const body = await req.json() as { session: string }
+        const body = await req.json() as { session: string; project: string }
         const session = body.session?.replace(/[^a-zA-Z0-9_-]/g, "")
         if (!session) return new Response("missing session", { status: 400 })
-        // Open a new Terminal window that attaches to the tmux session
+        // Only attach within discovered projects — the backend comes from that project's config
+        const project = (await getProjects()).find((p) => p === body.project)
+        if (!project) return new Response("unknown project", { status: 400 })
+        const config = await loadConfig(project)
+        const command = createBackend(config.backend, $, project).attachCommand(session)
+        // Open a new Terminal window that runs the attach command
         Bun.spawn(["osascript", "-e",
           `tell application "Terminal"
             activate
-            do script "tmux attach-session -t ${session}"
+            do script "${command.replace(/"/g, '\\"')}"
           end tell`
         ])
         return new Response(JSON.stringify({ ok: true }), {
@@ -0,0 +1,244 @@
+/**
+ * Live agent status from each background server's event stream (GET /event, SSE).
+ *
+ * One subscription per registered agent. Events for the agent's session drive
+ * its status and lifecycle events on real transitions (busy → idle, errors).
+ * Going idle is handed to the completion verifier, which decides between
+ * agent:finished and agent:idle.
+ * Each connect asks the server once whether the session is already idle, since
+ * events from before it are lost. Dropped streams reconnect with exponential
+ * backoff; servers without an event stream are marked unsupported and left to
+ * the idle poller.
+ */
+
+import type { AgentRegistry } from "./registry"
+import type { LifecycleEmitter } from "./lifecycle"
+import type { CompletionVerifier } from "./verify"
+import { sleep } from "./util"
+
+export type StreamStatus = "running" | "finished" | "errored"
+
+export interface LiveState {
+  status: StreamStatus
+  lastEventAt: string
+  lastTool?: string
+  lastError?: string
+}
+
+interface Subscription {
+  port: number
+  sessionId: string
+  controller: AbortController
+  connected: boolean
+  unsupported: boolean
+  state: LiveState | null
+}
+
+const BACKOFF_START_MS = 1000
+const BACKOFF_MAX_MS = 30_000
+
+export class AgentEventStreams {
+  private subs = new Map<string, Subscription>()
+
+  constructor(
+    private registry: AgentRegistry,
+    private emitter: LifecycleEmitter,
+    private verifier: CompletionVerifier,
+  ) {}
+
+  /**
+   * Match subscriptions to the registry: subscribe new agents, resubscribe
+   * agents whose port or session changed, drop cleaned-up agents.
+   */
+  sync(): void {
+    for (const [issueId, sub] of this.subs) {
+      const agent = this.registry.get(issueId)
+      if (!agent || agent.parkedAt || agent.port !== sub.port || agent.sessionId !== sub.sessionId) {
+        sub.controller.abort()
+        this.subs.delete(issueId)
+      }
+    }
+    for (const [issueId, agent] of this.registry.entries()) {
+      if (this.subs.has(issueId) || agent.parkedAt) continue
+      const sub: Subscription = {
+        port: agent.port,
+        sessionId: agent.sessionId,
+        controller: new AbortController(),
+        connected: false,
+        unsupported: false,
+        state: null,
+      }
+      this.subs.set(issueId, sub)
+      this.run(issueId, sub).catch(() => {})
+    }
+  }
+
+  /**
+   * True while the agent's event stream is connected.
+   */
+  isLive(issueId: string): boolean {
+    return this.subs.get(issueId)?.connected ?? false
+  }
+
+  /**
+   * Current status from the stream, or null if there is no live stream
+   * (or no events have arrived yet) — callers fall back to polling.
+   */
+  status(issueId: string): StreamStatus | null {
+    const sub = this.subs.get(issueId)
+    return sub?.connected ? (sub.state?.status ?? null) : null
+  }
+
+  state(issueId: string): LiveState | null {
+    return this.subs.get(issueId)?.state ?? null
+  }
+
+  close(): void {
+    for (const sub of this.subs.values()) sub.controller.abort()
+    this.subs.clear()
+  }
+
+  /**
+   * Connect loop for one agent. Exits when aborted or the server has no stream.
+   */
+  private async run(issueId: string, sub: Subscription): Promise<void> {
+    let backoff = BACKOFF_START_MS
+    while (!sub.controller.signal.aborted && !sub.unsupported) {
+      try {
+        const resp = await fetch(`http://localhost:${sub.port}/event`, {
+          headers: { Accept: "text/event-stream" },
+          signal: sub.controller.signal,
+        })
+        if (resp.status === 404) {
+          sub.unsupported = true
+          return
+        }
+        if (!resp.ok || !resp.body) throw new Error(`HTTP ${resp.status}`)
+
+        sub.connected = true
+        backoff = BACKOFF_START_MS
+        await this.checkIdle(issueId, sub)
+        await this.read(issueId, sub, resp.body)
+      } catch {
+        // Connection refused or dropped — retry below
+      }
+      sub.connected = false
+      if (sub.controller.signal.aborted) return
+      await sleep(backoff)
+      backoff = Math.min(backoff * 2, BACKOFF_MAX_MS)
+    }
+  }
+
+  /**
+   * Events sent while no stream was connected are lost, so ask once whether
+   * the session is already idle — the poller skips agents with a live stream.
+   */
+  private async checkIdle(issueId: string, sub: Subscription): Promise<void> {
+    try {
+      const resp = await fetch(`http://localhost:${sub.port}/session/${sub.sessionId}/status`, {
+        signal: sub.controller.signal,
+      })
+      if (!resp.ok) return
+      const status: any = await resp.json()
+      if (status?.status !== "idle" && status?.idle !== true) return
+    } catch {
+      return
+    }
+    sub.state = { ...sub.state, status: "finished", lastEventAt: new Date().toISOString() }
+    await this.verifier.settle(issueId)
+  }
+
+  private async read(issueId: string, sub: Subscription, body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ""
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) return
+      buffer += decoder.decode(value, { stream: true })
+
+      // SSE frames are separated by a blank line; data may span several lines
+      let boundary: number
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const frame = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
+        const data = frame
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trimStart())
+          .join("\n")
+        if (!data) continue
+        try {
+          await this.handle(issueId, sub, JSON.parse(data))
+        } catch {
+          // Ignore malformed frames
+        }
+      }
+    }
+  }
+
+  /**
+   * Apply one server event to the agent's state, emitting lifecycle events
+   * on transitions.
+   */
+  private async handle(issueId: string, sub: Subscription, event: any): Promise<void> {
+    const props = event?.properties ?? {}
+    const sessionId = props.sessionID ?? props.info?.sessionID ?? props.part?.sessionID
+    if (sessionId !== sub.sessionId) return
+
+    const agent = this.registry.get(issueId)
+    const previous = sub.state?.status ?? null
+    const now = new Date().toISOString()
+    const set = (patch: Partial<LiveState> & { status: StreamStatus }) => {
+      sub.state = { ...sub.state, ...patch, lastEventAt: now }
+    }
+
+    switch (event.type) {
+      case "message.updated": {
+        // An assistant message without a completion time is in progress
+        if (props.info?.role === "assistant" && !props.info?.time?.completed) {
+          set({ status: "running" })
+        }
+        break
+      }
+      case "message.part.updated": {
+        if (props.part?.type === "tool") {
+          set({ status: "running", lastTool: props.part.tool })
+        }
+        break
+      }
+      case "session.status": {
+        if (props.status?.type === "busy") set({ status: "running" })
+        if (props.status?.type === "idle") set({ status: "finished" })
+        break
+      }
+      case "session.idle": {
+        set({ status: "finished" })
+        break
+      }
+      case "session.error": {
+        const error = props.error?.data?.message ?? props.error?.name ?? "Session error"
+        set({ status: "errored", lastError: error })
+        await this.emitter.emit("agent:errored", {
+          issueId,
+          branch: agent?.branch,
+          port: sub.port,
+          error,
+        })
+        return
+      }
+      default:
+        return
+    }
+
+    const current = sub.state?.status
+    if (current === previous) return
+    if (current === "finished") {
+      await this.verifier.settle(issueId)
+    } else if (current === "running" && previous !== null) {
+      // Back to work after finishing (e.g. a follow-up arrived)
+      this.verifier.forget(issueId)
+      await this.emitter.emit("agent:running", { issueId, branch: agent?.branch, port: sub.port })
+    }
+  }
+}
@@ -10,6 +10,7 @@ import type { PluginInput } from "@opencode-ai/plugin"
 import { AgentRegistry } from "./registry"
 import {
   dispatch,
+  dispatchMany,
   checkAgent,
   followupAgent,
   abortAgent,
@@ -19,14 +20,97 @@ import {
 } from "./orchestrator"
 import { LB_GUIDANCE, getLbContext } from "./context"
 import { COMMANDS, AGENT_CONFIG } from "./commands"
-import { LifecycleEmitter } from "./lifecycle"
-export type { LifecycleEmitter, LifecycleEventType, LifecyclePayload, LifecycleHandler } from "./lifecycle"
+import { LifecycleEmitter, type LifecycleEventType, shareEmitter } from "./lifecycle"
+import { DispatchQueue } from "./queue"
+import { loadConfig } from "./config"
+import { Watchdog } from "./watchdog"
+import { AgentEventStreams } from "./events"
+import { CompletionVerifier } from "./verify"
+import { CleanupPolicy } from "./cleanup"
+import { listArchives, restoreArchive } from "./archive"
+import { exportTranscript } from "./transcript"
+import { UsageMonitor } from "./usage"
+import { TimeoutMonitor } from "./timeouts"
+import { StallDetector } from "./stall"
+import { PermissionRelay } from "./permissions"
+import { LifecycleSinks } from "./sinks"
+import { createBackend } from "./backend"
+import { Autopilot } from "./autopilot"
+// Other plugins subscribe through lifecycleEmitter(directory) in ./lifecycle — only
+// plugin functions are exported at runtime here, since opencode calls every one
+export type {
+  LifecycleEmitter,
+  LifecycleEventType,
+  LifecycleEventPattern,
+  LifecyclePayload,
+  LifecycleInput,
+  LifecycleHandler,
+  LifecycleRecord,
+  LifecycleHandlerError,
+  LifecycleErrorHandler,
+} from "./lifecycle"
 
 type OpencodeClient = PluginInput["client"]
 
-export const LbPlugin: Plugin = async ({ client, $ }) => {
-  const registry = new AgentRegistry()
+export const LbPlugin: Plugin = async ({ client, $, directory }) => {
+  const config = await loadConfig(directory)
+  const backend = createBackend(config.backend, $, directory)
+  const registry = new AgentRegistry(`${directory}/.lb/agents.json`)
+  // This instance's own emitter, forwarded to the per-project shared one other
+  // plugins subscribe to — a re-initialised plugin replaces the forwarding
   const emitter = new LifecycleEmitter()
+  const unshare = shareEmitter(directory, emitter)
+  const queue = new DispatchQueue(registry, config.maxConcurrent, (args) =>
+    dispatch($, backend, registry, emitter, args, {
+      ports: config.ports,
+      directory,
+      contextBudget: config.contextBudget,
+    }),
+  )
+
+  // Failing or hanging handlers are logged instead of disappearing
+  emitter.onError(({ event, payload, error, timedOut }) => {
+    client.app
+      .log({
+        body: {
+          service: "opencode-lb",
+          level: timedOut ? "warn" : "error",
+          message: `${event} handler ${timedOut ? "timed out" : "failed"} for ${payload.issueId}: ${error instanceof Error ? error.message : String(error)}`,
+          extra: { event, payload },
+        },
+      })
+      .catch(() => {})
+  })
+
+  // Handlers that start dispatches run in the background: a dispatch (up to 30s
+  // waiting for opencode serve alone) outlasts the emitter's handler timeout
+  const inBackground = (what: string, task: () => Promise<unknown>) => {
+    task().catch((error) => {
+      client.app
+        .log({
+          body: {
+            service: "opencode-lb",
+            level: "error",
+            message: `${what} failed: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        })
+        .catch(() => {})
+    })
+  }
+
+  // Hook scripts (.lb/hooks/<event>) and webhooks; failed deliveries are logged
+  const sinks = new LifecycleSinks(directory, config.hooks, ({ sink, event, issueId, error }) => {
+    client.app
+      .log({
+        body: {
+          service: "opencode-lb",
+          level: "warn",
+          message: `${event} delivery to ${sink} failed for ${issueId}: ${error}`,
+        },
+      })
+      .catch(() => {})
+  })
+  sinks.attach(emitter)
 
   // ── Default toast handlers ──────────────────────────────────────────────
   emitter.on("agent:claimed", async ({ issueId }) => {
@@ -51,17 +135,28 @@ export const LbPlugin: Plugin = async ({ client, $ }) => {
     })
   })
 
-  emitter.on("agent:finished", async ({ issueId }) => {
+  emitter.on("agent:finished", async ({ issueId, reason }) => {
     await client.tui.showToast({
       body: {
         title: `${issueId} finished`,
-        message: "Background agent done. Run lb_check or lb_cleanup.",
+        message: `Background agent ${reason ?? "done"}. Run lb_check or lb_cleanup.`,
         variant: "success",
         duration: 6000,
       },
     })
   })
 
+  emitter.on("agent:idle", async ({ issueId, reason }) => {
+    await client.tui.showToast({
+      body: {
+        title: `${issueId} idle`,
+        message: `${reason ?? "idle, awaiting input"}. Run lb_check to see what it needs.`,
+        variant: "info",
+        duration: 6000,
+      },
+    })
+  })
+
   emitter.on("agent:errored", async ({ issueId, error }) => {
     await client.tui.showToast({
       body: {
@@ -84,6 +179,50 @@ export const LbPlugin: Plugin = async ({ client, $ }) => {
     })
   })
 
+  emitter.on("agent:restarted", async ({ issueId, reason }) => {
+    await client.tui.showToast({
+      body: {
+        title: `${issueId} restarted`,
+        message: reason ?? "opencode serve restarted by watchdog.",
+        variant: "warning",
+        duration: 6000,
+      },
+    })
+  })
+
+  emitter.on("agent:stalled", async ({ issueId, reason }) => {
+    await client.tui.showToast({
+      body: {
+        title: `${issueId} stalled`,
+        message: `${reason ?? "No progress"}. Try lb_followup or lb_abort.`,
+        variant: "warning",
+        duration: 8000,
+      },
+    })
+  })
+
+  emitter.on("agent:permission", async ({ issueId, reason }) => {
+    await client.tui.showToast({
+      body: {
+        title: `${issueId} needs permission`,
+        message: `${reason ?? "Permission requested"}. Answer with lb_permit.`,
+        variant: "warning",
+        duration: 10000,
+      },
+    })
+  })
+
+  emitter.on("agent:parked", async ({ issueId, reason }) => {
+    await client.tui.showToast({
+      body: {
+        title: `${issueId} parked`,
+        message: reason ?? "Server stopped by auto cleanup. lb_revive to undo.",
+        variant: "info",
+        duration: 8000,
+      },
+    })
+  })
+
   emitter.on("agent:closed", async ({ issueId }) => {
     await client.tui.showToast({
       body: {
@@ -98,17 +237,146 @@ export const LbPlugin: Plugin = async ({ client, $ }) => {
   // ── Sound handlers ───────────────────────────────────────────────────
   const sound = (file: string) => $`afplay /System/Library/Sounds/${file}`.quiet().nothrow()
 
-  emitter.on("agent:claimed", async () => { await sound("Tink.aiff") })
-  emitter.on("agent:running", async () => { await sound("Pop.aiff") })
-  emitter.on("agent:finished", async () => { await sound("Hero.aiff") })
-  emitter.on("agent:errored", async () => { await sound("Basso.aiff") })
-  emitter.on("agent:aborted", async () => { await sound("Funk.aiff") })
-  emitter.on("agent:closed", async () => { await sound("Glass.aiff") })
+  const sounds: Partial<Record<LifecycleEventType, string>> = {
+    "agent:claimed": "Tink.aiff",
+    "agent:running": "Pop.aiff",
+    "agent:finished": "Hero.aiff",
+    "agent:idle": "Ping.aiff",
+    "agent:errored": "Basso.aiff",
+    "agent:aborted": "Funk.aiff",
+    "agent:restarted": "Morse.aiff",
+    "agent:stalled": "Sosumi.aiff",
+    "agent:permission": "Purr.aiff",
+    "agent:parked": "Bottle.aiff",
+    "agent:closed": "Glass.aiff",
+  }
+  emitter.on("agent:*", async (_payload, event) => {
+    const file = sounds[event]
+    if (file) await sound(file)
+  })
+
+  // ── Queue handlers ───────────────────────────────────────────────────
+  // A finished agent frees its slot — start the next queued dispatch
+  emitter.on("agent:finished", ({ issueId }) => {
+    queue.markFinished(issueId)
+    inBackground(`Starting queued dispatches after ${issueId}`, () => queue.drain())
+  })
+  emitter.on("agent:closed", ({ issueId }) => {
+    queue.markFinished(issueId)
+    inBackground(`Starting queued dispatches after ${issueId}`, () => queue.drain())
+  })
+
+  // Reconstruct state from the state file, live processes + lb local cache on startup (--no-sync: no API calls)
+  registry.load()
+  await reconstructRegistry($, backend, registry, config.watchdog.enabled)
 
-  // Reconstruct state from tmux + lb local cache on startup (--no-sync: no API calls)
-  await reconstructRegistry($, registry)
+  // Idle agents are checked for real completion (commits, push, PR, lb status)
+  const verifier = new CompletionVerifier($, registry, emitter)
+
+  // Live status from each agent's event stream; resubscribe when agents start or move ports
+  const streams = new AgentEventStreams(registry, emitter, verifier)
+  streams.sync()
+  emitter.on("agent:running", () => streams.sync())
+  emitter.on("agent:restarted", () => streams.sync())
+  emitter.on("agent:parked", () => streams.sync())
+
+  // Every cleanup (lb_cleanup, timeouts, auto cleanup) frees the agent's slot, even
+  // when it ends in a status with no event of its own (e.g. todo_refined)
+  emitter.on("agent:cleaned", ({ issueId }) => {
+    verifier.forget(issueId)
+    streams.sync()
+    inBackground(`Starting queued dispatches after ${issueId}`, () => queue.drain())
+  })
+
+  // Restart dead opencode serve processes in place
+  const watchdog = new Watchdog($, backend, registry, emitter, config.watchdog.maxRestarts, config.ports)
+  if (config.watchdog.enabled) watchdog.start(config.watchdog.intervalMs)
+
+  // Token/cost accounting; agents over their budget are aborted
+  const usage = new UsageMonitor($, registry, emitter, {
+    maxCost: config.budget.maxCost,
+    maxTokens: config.budget.maxTokens,
+  })
+  usage.start(config.budget.intervalMs)
+
+  // Automatic cleanups (timeouts, cleanup policy) archive and save transcripts like lb_cleanup
+  const cleanupOptions = { directory, transcript: config.transcriptOnCleanup }
+
+  // Abort agents past their runtime or inactivity limit
+  const { intervalMs: timeoutIntervalMs, ...timeoutDefaults } = config.timeouts
+  const timeouts = new TimeoutMonitor($, backend, registry, emitter, timeoutDefaults, cleanupOptions)
+  timeouts.start(timeoutIntervalMs)
+
+  // Park, then clean up, agents that stay finished (opt-in, evaluated by the poller)
+  const cleanupPolicy = new CleanupPolicy(
+    $, backend, registry, emitter, config.cleanup, config.ports, cleanupOptions,
+  )
 
   const injectedSessions = new Set<string>()
+  // Most recent coordinator session — target for synthetic notifications
+  let coordinatorSession: string | null = null
+  const notifyCoordinator = async (text: string) => {
+    if (!coordinatorSession) return
+    try {
+      await client.session.prompt({
+        path: { id: coordinatorSession },
+        body: {
+          noReply: true,
+          parts: [{ type: "text", text, synthetic: true }],
+        },
+      })
+    } catch {}
+  }
+
+  // Autopilot: when blockers finish, dispatch what they unblocked (opt-in)
+  const autopilot = new Autopilot($, registry, queue, config.autopilot)
+  if (config.autopilot.enabled) {
+    await autopilot.prime()
+    const onDone = async ({ issueId }: { issueId: string }) => {
+      const { started, queued } = await autopilot.run(issueId)
+      if (started.length === 0 && queued.length === 0) return
+
+      const lines = [
+        ...started.map((id) => `- ${id}: dispatched`),
+        ...queued.map((q) => `- ${q.issueId}: queued (position ${q.position})`),
+      ]
+      await client.tui.showToast({
+        body: {
+          title: "Autopilot",
+          message: `${issueId} unblocked ${started.length + queued.length} issue(s): ${[...started, ...queued.map((q) => q.issueId)].join(", ")}`,
+          variant: "info",
+          duration: 6000,
+        },
+      })
+      await notifyCoordinator(
+        `<lb-autopilot>\n${issueId} finished and unblocked:\n${lines.join("\n")}\nUse lb_agents to monitor them.\n</lb-autopilot>`,
+      )
+    }
+    for (const event of ["agent:finished", "agent:closed"] as const) {
+      emitter.on(event, (payload) => inBackground(`Autopilot after ${payload.issueId}`, () => onDone(payload)))
+    }
+  }
+
+  // Stall detection: toast, and hint the coordinator to step in
+  const stalls = new StallDetector(registry, emitter, config.stall)
+  if (config.stall.enabled) stalls.start(config.stall.intervalMs)
+  emitter.on("agent:stalled", async ({ issueId, reason }) => {
+    await notifyCoordinator(
+      `<lb-stalled>\n${issueId} looks stuck: ${reason ?? "no progress"}.\n` +
+        `Check it with lb_check, then unblock it with lb_followup (new instructions or a hint) or stop it with lb_abort.\n</lb-stalled>`,
+    )
+  })
+
+  // Permission prompts: auto-approve safe commands, relay the rest to the coordinator
+  const permissions = new PermissionRelay(registry, emitter, config.permissions)
+  if (config.permissions.enabled) permissions.start(config.permissions.intervalMs)
+  emitter.on("agent:permission", async ({ issueId, reason }) => {
+    await notifyCoordinator(
+      `<lb-permission>\n${issueId} is waiting for permission: ${reason ?? "unknown request"}.\n` +
+        `Approve or deny it with lb_permit (reply once, always or reject) — the agent is blocked until then.\n</lb-permission>`,
+    )
+  })
+
   let lastIdleSync = 0
   const IDLE_SYNC_COOLDOWN_MS = 10 * 60 * 1000 // 10 minutes
 
@@ -117,7 +385,7 @@ export const LbPlugin: Plugin = async ({ client, $ }) => {
     tool: {
       lb_dispatch: tool({
         description:
-          "Dispatch an lb issue to a background worktree agent. Creates worktree, launches opencode serve in tmux, creates session, sends the task prompt. Returns agent metadata (port, sessionId, tmux, branch).",
+          "Dispatch an lb issue to a background worktree agent. Creates worktree, launches opencode serve (tmux or detached process), creates session, sends the task prompt rendered from the issue and a project template. Issues blocked by an issue with a running agent are stacked on that agent's branch. Returns agent metadata (port, sessionId, tmux, branch, baseBranch) and the rendered prompt.",
         args: {
           issueId: tool.schema.string().describe("Linear issue ID (e.g. AGE-42)"),
           prompt: tool.schema.string().describe("Task prompt to send to the background agent"),
@@ -137,9 +405,72 @@ export const LbPlugin: Plugin = async ({ client, $ }) => {
             .boolean()
             .optional()
             .describe("Skip worktree creation and run in repo root (for read-only tasks)"),
+          template: tool.schema
+            .string()
+            .optional()
+            .describe("Prompt template name from .lb/templates (default: chosen by issue label, then default.md)"),
+          base: tool.schema
+            .string()
+            .optional()
+            .describe("Branch (or issue ID with a running agent) to create the worktree from (default: the branch of a blocker with a running agent, else the current branch)"),
+          maxCost: tool.schema
+            .number()
+            .optional()
+            .describe("Abort the agent once its cost exceeds this many USD (default: project budget)"),
+          maxTokens: tool.schema
+            .number()
+            .optional()
+            .describe("Abort the agent once its total tokens exceed this (default: project budget)"),
+          maxRuntimeMinutes: tool.schema
+            .number()
+            .optional()
+            .describe("Abort the agent after this many minutes of total runtime (default: project timeouts)"),
+          inactivityMinutes: tool.schema
+            .number()
+            .optional()
+            .describe("Abort the agent after this many minutes without a new message (default: project timeouts)"),
+          cleanupOnTimeout: tool.schema
+            .boolean()
+            .optional()
+            .describe("After a timeout abort, clean up with status todo_refined (default: project timeouts)"),
+          autoApprove: tool.schema
+            .array(tool.schema.string())
+            .optional()
+            .describe("Bash commands this agent may run without asking, `*` wildcards (added to permissions.autoApprove)"),
         },
         async execute(args) {
-          return await dispatch($, registry, emitter, args)
+          return await queue.submit(args)
+        },
+      }),
+
+      lb_dispatch_many: tool({
+        description:
+          "Enqueue several lb issues for background dispatch — explicit issue IDs or the top N from lb ready. Starts as many as the concurrency limit allows; the rest start automatically as running agents finish or are cleaned up.",
+        args: {
+          issueIds: tool.schema
+            .array(tool.schema.string())
+            .optional()
+            .describe("Linear issue IDs to dispatch (e.g. [AGE-42, AGE-43])"),
+          top: tool.schema
+            .number()
+            .optional()
+            .describe("Dispatch the top N issues from lb ready (used when issueIds is omitted)"),
+          prompt: tool.schema.string().describe("Task prompt sent to every background agent"),
+          model: tool.schema
+            .string()
+            .optional()
+            .describe("Model ID (default: claude-sonnet-4-6)"),
+          provider: tool.schema
+            .string()
+            .optional()
+            .describe("Provider ID (default: anthropic)"),
+          template: tool.schema
+            .string()
+            .optional()
+            .describe("Prompt template name from .lb/templates (default: chosen per issue by label)"),
+        },
+        async execute(args) {
+          return await dispatchMany($, registry, queue, args)
         },
       }),
 
@@ -154,19 +485,27 @@ export const LbPlugin: Plugin = async ({ client, $ }) => {
             .describe("Number of recent messages to fetch (default: 10)"),
         },
         async execute(args) {
-          return await checkAgent($, registry, args.issueId, args.lines)
+          return await checkAgent($, backend, registry, args.issueId, args.lines, streams, usage, permissions, emitter)
         },
       }),
 
       lb_followup: tool({
         description:
-          "Send a follow-up message to a running background agent.",
+          "Send a follow-up message to a running background agent. Uses the agent's model unless overridden; an override is remembered.",
         args: {
           issueId: tool.schema.string().describe("Linear issue ID"),
           message: tool.schema.string().describe("Follow-up instructions to send"),
+          model: tool.schema
+            .string()
+            .optional()
+            .describe("Model ID override (default: the model the agent was dispatched with)"),
+          provider: tool.schema
+            .string()
+            .optional()
+            .describe("Provider ID override (default: the agent's provider)"),
         },
         async execute(args) {
-          return await followupAgent($, registry, args.issueId, args.message)
+          return await followupAgent($, registry, args.issueId, args.message, args.model, args.provider)
         },
       }),
 
@@ -181,9 +520,32 @@ export const LbPlugin: Plugin = async ({ client, $ }) => {
         },
       }),
 
+      lb_permit: tool({
+        description:
+          "Answer a permission request from a background agent (e.g. a bash command waiting for approval). Pending requests are listed by lb_agents and lb_check.",
+        args: {
+          issueId: tool.schema.string().describe("Linear issue ID"),
+          permissionId: tool.schema
+            .string()
+            .optional()
+            .describe("Permission request ID (default: the agent's only pending request)"),
+          reply: tool.schema
+            .enum(["once", "always", "reject"])
+            .optional()
+            .describe("Approve this once, approve it for the rest of the session, or deny it (default: once)"),
+          message: tool.schema
+            .string()
+            .optional()
+            .describe("Explanation sent to the agent along with a rejection"),
+        },
+        async execute(args) {
+          return await permissions.reply(args.issueId, args.permissionId, args.reply ?? "once", args.message)
+        },
+      }),
+
       lb_cleanup: tool({
         description:
-          "Clean up a background agent: kill tmux session, delete worktree, update lb status.",
+          "Clean up a background agent: stop the server process (tmux session), delete worktree, update lb status.",
         args: {
           issueId: tool.schema.string().describe("Linear issue ID"),
           status: tool.schema
@@ -194,18 +556,93 @@ export const LbPlugin: Plugin = async ({ client, $ }) => {
             .boolean()
             .optional()
             .describe("Force delete worktree without safety checks"),
+          transcript: tool.schema
+            .boolean()
+            .optional()
+            .describe("Save the full transcript to .lb/transcripts before stopping the server (default: transcriptOnCleanup config)"),
+        },
+        async execute(args) {
+          return await cleanupAgent($, backend, registry, emitter, args.issueId, args.status, args.force, {
+            directory,
+            transcript: args.transcript ?? config.transcriptOnCleanup,
+          })
+        },
+      }),
+
+      lb_revive: tool({
+        description:
+          "Revive an agent parked by auto cleanup: restart its opencode serve in the kept worktree and resume the session. Only possible until the worktree is deleted.",
+        args: {
+          issueId: tool.schema.string().describe("Linear issue ID"),
+        },
+        async execute(args) {
+          return await cleanupPolicy.revive(args.issueId)
+        },
+      }),
+
+      lb_transcript: tool({
+        description:
+          "Export a background agent's full conversation (user/assistant turns, tool calls with inputs and outputs, errors) to a markdown or JSONL file under .lb/transcripts. Optionally posts a condensed version as a comment on the lb issue.",
+        args: {
+          issueId: tool.schema.string().describe("Linear issue ID"),
+          format: tool.schema
+            .enum(["markdown", "jsonl"])
+            .optional()
+            .describe("Output format (default: markdown)"),
+          comment: tool.schema
+            .boolean()
+            .optional()
+            .describe("Also attach a condensed transcript to the lb issue as a comment"),
+        },
+        async execute(args) {
+          const agent = registry.get(args.issueId)
+          if (!agent) return JSON.stringify({ status: "not_found", issueId: args.issueId })
+          return await exportTranscript($, agent, `${directory}/.lb/transcripts`, args.format, args.comment)
+        },
+      }),
+
+      lb_archives: tool({
+        description:
+          "List work archived by lb_cleanup (uncommitted changes, unpushed commits, transcript under .lb/archive/<ID>/), or restore an issue's archive into a fresh worktree.",
+        args: {
+          issueId: tool.schema
+            .string()
+            .optional()
+            .describe("Only this issue's archives (required for restore)"),
+          restore: tool.schema
+            .boolean()
+            .optional()
+            .describe("Restore the archive into a new worktree instead of listing"),
+          archivedAt: tool.schema
+            .string()
+            .optional()
+            .describe("Which archive to restore, by its archivedAt timestamp (default: newest)"),
+          branch: tool.schema
+            .string()
+            .optional()
+            .describe("Branch for the restored worktree (default: <original branch>-restored)"),
         },
         async execute(args) {
-          return await cleanupAgent($, registry, emitter, args.issueId, args.status, args.force)
+          if (!args.restore) {
+            const archives = listArchives(directory, args.issueId)
+            return JSON.stringify({ archives, count: archives.length })
+          }
+          if (!args.issueId) {
+            return JSON.stringify({ status: "error", error: "issueId is required to restore" })
+          }
+          return await restoreArchive($, directory, args.issueId, {
+            archivedAt: args.archivedAt,
+            branch: args.branch,
+          })
         },
       }),
 
       lb_agents: tool({
         description:
-          "List all running background agents with their status, port, session, and branch.",
+          "List all running background agents with their status, port, session, and branch, plus issues waiting in the dispatch queue.",
         args: {},
         async execute() {
-          return await listAgents($, registry)
+          return await listAgents($, backend, registry, queue, streams, usage, stalls, permissions)
         },
       }),
     },
@@ -215,6 +652,7 @@ export const LbPlugin: Plugin = async ({ client, $ }) => {
     // Inject lb context on first message in a session
     "chat.message": async (_input, output) => {
       const sessionID = output.message.sessionID
+      coordinatorSession = sessionID
       if (injectedSessions.has(sessionID)) return
       injectedSessions.add(sessionID)
 
@@ -267,12 +705,12 @@ export const LbPlugin: Plugin = async ({ client, $ }) => {
         } catch {}
       }
 
-      // On session idle, poll background agents and sync (with cooldown)
+      // On session idle, poll background agents without a live event stream and sync (with cooldown)
       if (event.type === "session.idle") {
         const now = Date.now()
         if (now - lastIdleSync >= IDLE_SYNC_COOLDOWN_MS) {
           lastIdleSync = now
-          await pollBackgroundAgents($, client, registry, emitter)
+          await pollBackgroundAgents($, client, registry, emitter, streams, verifier, cleanupPolicy)
         }
       }
     },
@@ -282,19 +720,36 @@ export const LbPlugin: Plugin = async ({ client, $ }) => {
       config.command = { ...config.command, ...COMMANDS }
       config.agent = { ...config.agent, ...AGENT_CONFIG }
     },
+
+    // Stop this instance's timers and streams, and its forwarding to the shared emitter
+    dispose: async () => {
+      unshare()
+      watchdog.stop()
+      usage.stop()
+      timeouts.stop()
+      stalls.stop()
+      permissions.stop()
+      streams.close()
+    },
   }
 }
 
 /**
- * Poll all tracked background agents. Emit lifecycle events on state changes.
+ * Poll tracked background agents. Emit lifecycle events on state changes.
+ * Agents with a connected event stream are skipped — their events arrive live.
+ * Then applies the auto cleanup policy to every agent.
  */
 async function pollBackgroundAgents(
   $: PluginInput["$"],
   _client: OpencodeClient,
   registry: AgentRegistry,
   emitter: LifecycleEmitter,
+  streams: AgentEventStreams,
+  verifier: CompletionVerifier,
+  cleanupPolicy: CleanupPolicy,
 ) {
   for (const [issueId, agent] of registry.entries()) {
+    if (streams.isLive(issueId) || agent.parkedAt) continue
     try {
       const resp = await fetch(
         `http://localhost:${agent.port}/session/${agent.sessionId}/status`,
@@ -311,13 +766,11 @@ async function pollBackgroundAgents(
       }
       const status = await resp.json()
 
-      // Check if agent session is idle (done working)
+      // Idle only means the model stopped — the verifier decides finished vs awaiting input
       if (status?.status === "idle" || status?.idle === true) {
-        await emitter.emit("agent:finished", {
-          issueId,
-          branch: agent.branch,
-          port: agent.port,
-        })
+        await verifier.settle(issueId)
+      } else {
+        verifier.forget(issueId)
       }
     } catch {
       // Agent not reachable — may have been cleaned up externally
@@ -330,6 +783,12 @@ async function pollBackgroundAgents(
     }
   }
 
+  try {
+    await cleanupPolicy.evaluate()
+  } catch {
+    // Silent — the policy is re-evaluated on the next poll
+  }
+
   // Sync lb quietly — with timeout to prevent zombie processes
   try {
     const syncProc = Bun.spawn(["lb", "sync"], {
@@ -4,19 +4,45 @@
  * Events:
  *   agent:claimed   — issue picked up (lb update --status in_progress)
  *   agent:running   — dispatch complete, opencode serve is up
- *   agent:finished  — moved to in_review
+ *   agent:finished  — idle with completion verified (PR open or marked in_review)
+ *   agent:idle      — idle without verified completion (likely awaiting input)
  *   agent:errored   — agent crashed or unreachable
  *   agent:aborted   — agent aborted
+ *   agent:restarted — watchdog restarted a dead opencode serve
+ *   agent:stalled   — agent busy but stuck (no progress, repeated tool calls or errors)
+ *   agent:permission — agent waiting for a permission request to be answered
+ *   agent:parked    — auto cleanup stopped a finished agent's server (worktree kept)
  *   agent:closed    — issue marked done
+ *   agent:cleaned   — cleanup finished (server stopped, agent unregistered), whatever the final status
+ *
+ * Handlers for one event run in parallel, each bounded by a timeout, and
+ * emit() resolves once all of them have settled — so callers that await it
+ * still see events handled in order. Failures and timeouts go to the error
+ * channel (onError) instead of the caller. Emitted events are kept in a
+ * bounded history.
+ *
+ * Other plugins can subscribe through lifecycleEmitter(directory), the shared
+ * emitter for that project. opencode-lb emits on its own emitter and forwards
+ * to the shared one (shareEmitter), so re-initialising the plugin never leaves
+ * its old handlers behind.
  */
 
 export type LifecycleEventType =
   | "agent:claimed"
   | "agent:running"
   | "agent:finished"
+  | "agent:idle"
   | "agent:errored"
   | "agent:aborted"
+  | "agent:restarted"
+  | "agent:stalled"
+  | "agent:permission"
+  | "agent:parked"
   | "agent:closed"
+  | "agent:cleaned"
+
+/** An event type, or "agent:*" for every event */
+export type LifecycleEventPattern = LifecycleEventType | "agent:*"
 
 export interface LifecyclePayload {
   issueId: string
@@ -24,43 +50,207 @@ export interface LifecyclePayload {
   port?: number
   error?: string
   reason?: string
+  /** ISO time the event was emitted */
+  timestamp: string
+}
+
+/** What emitters pass — the timestamp is filled in by emit() when omitted */
+export type LifecycleInput = Omit<LifecyclePayload, "timestamp"> & { timestamp?: string }
+
+export type LifecycleHandler = (payload: LifecyclePayload, event: LifecycleEventType) => void | Promise<void>
+
+export interface LifecycleRecord {
+  event: LifecycleEventType
+  payload: LifecyclePayload
 }
 
-export type LifecycleHandler = (payload: LifecyclePayload) => void | Promise<void>
+export interface LifecycleHandlerError {
+  event: LifecycleEventType
+  payload: LifecyclePayload
+  error: unknown
+  /** The handler didn't settle within the timeout (it keeps running) */
+  timedOut: boolean
+}
+
+export type LifecycleErrorHandler = (failure: LifecycleHandlerError) => void
+
+export interface LifecycleOptions {
+  /** Emitted events kept for history() */
+  historyLimit?: number
+  /** How long emit() waits for each handler */
+  handlerTimeoutMs?: number
+}
+
+interface Listener {
+  handler: LifecycleHandler
+  once: boolean
+}
+
+const DEFAULT_HISTORY_LIMIT = 500
+const DEFAULT_HANDLER_TIMEOUT_MS = 10_000
 
 export class LifecycleEmitter {
-  private handlers = new Map<LifecycleEventType, LifecycleHandler[]>()
+  private handlers = new Map<LifecycleEventPattern, Listener[]>()
+  private errorHandlers: LifecycleErrorHandler[] = []
+  private records: LifecycleRecord[] = []
+  private historyLimit: number
+  private handlerTimeoutMs: number
+
+  constructor(options: LifecycleOptions = {}) {
+    this.historyLimit = options.historyLimit ?? DEFAULT_HISTORY_LIMIT
+    this.handlerTimeoutMs = options.handlerTimeoutMs ?? DEFAULT_HANDLER_TIMEOUT_MS
+  }
 
   /**
-   * Register a handler for a lifecycle event.
+   * Register a handler for a lifecycle event, or for every event with
+   * "agent:*". Returns a function that removes it.
    */
-  on(event: LifecycleEventType, handler: LifecycleHandler): void {
-    const list = this.handlers.get(event) ?? []
-    list.push(handler)
-    this.handlers.set(event, list)
+  on(event: LifecycleEventPattern, handler: LifecycleHandler): () => void {
+    this.add(event, { handler, once: false })
+    return () => this.off(event, handler)
+  }
+
+  /**
+   * Register a handler that runs for the next matching event only.
+   */
+  once(event: LifecycleEventPattern, handler: LifecycleHandler): () => void {
+    this.add(event, { handler, once: true })
+    return () => this.off(event, handler)
   }
 
   /**
    * Remove a previously registered handler.
    */
-  off(event: LifecycleEventType, handler: LifecycleHandler): void {
+  off(event: LifecycleEventPattern, handler: LifecycleHandler): void {
     const list = this.handlers.get(event)
     if (!list) return
-    const filtered = list.filter((h) => h !== handler)
+    const filtered = list.filter((l) => l.handler !== handler)
     this.handlers.set(event, filtered)
   }
 
   /**
-   * Emit a lifecycle event. Handler errors are caught silently.
+   * Register a handler for failed or timed-out lifecycle handlers.
+   */
+  onError(handler: LifecycleErrorHandler): () => void {
+    this.errorHandlers.push(handler)
+    return () => {
+      this.errorHandlers = this.errorHandlers.filter((h) => h !== handler)
+    }
+  }
+
+  /**
+   * Emit a lifecycle event: record it, then run the event's handlers and the
+   * wildcard handlers in parallel. Resolves when every handler has settled
+   * or timed out; handler errors never reach the caller.
+   */
+  async emit(event: LifecycleEventType, input: LifecycleInput): Promise<void> {
+    const payload: LifecyclePayload = { ...input, timestamp: input.timestamp ?? new Date().toISOString() }
+    this.records.push({ event, payload })
+    if (this.records.length > this.historyLimit) {
+      this.records.splice(0, this.records.length - this.historyLimit)
+    }
+
+    const listeners = [...this.take(event), ...this.take("agent:*")]
+    await Promise.all(listeners.map((l) => this.run(l.handler, event, payload)))
+  }
+
+  /**
+   * Emitted events, oldest first — all of them or one issue's, optionally
+   * only the most recent `limit`.
    */
-  async emit(event: LifecycleEventType, payload: LifecyclePayload): Promise<void> {
+  history(issueId?: string, limit?: number): LifecycleRecord[] {
+    const records = issueId ? this.records.filter((r) => r.payload.issueId === issueId) : [...this.records]
+    return limit !== undefined ? records.slice(-limit) : records
+  }
+
+  private add(event: LifecycleEventPattern, listener: Listener): void {
     const list = this.handlers.get(event) ?? []
-    for (const handler of list) {
+    list.push(listener)
+    this.handlers.set(event, list)
+  }
+
+  /**
+   * Current listeners for a pattern; once-listeners are removed as they are taken.
+   */
+  private take(event: LifecycleEventPattern): Listener[] {
+    const list = this.handlers.get(event) ?? []
+    if (list.some((l) => l.once)) this.handlers.set(event, list.filter((l) => !l.once))
+    return list
+  }
+
+  private async run(handler: LifecycleHandler, event: LifecycleEventType, payload: LifecyclePayload): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<"timeout">((resolve) => {
+      timer = setTimeout(() => resolve("timeout"), this.handlerTimeoutMs)
+    })
+    try {
+      const result = await Promise.race([Promise.resolve().then(() => handler(payload, event)), timeout])
+      if (result === "timeout") {
+        this.fail({
+          event,
+          payload,
+          error: new Error(`Handler did not settle within ${this.handlerTimeoutMs}ms`),
+          timedOut: true,
+        })
+      }
+    } catch (error) {
+      this.fail({ event, payload, error, timedOut: false })
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private fail(failure: LifecycleHandlerError): void {
+    for (const handler of this.errorHandlers) {
       try {
-        await handler(payload)
+        handler(failure)
       } catch {
-        // Silent — handler errors must never break the caller
+        // Silent — a broken error handler must not break emit()
       }
     }
   }
 }
+
+// Shared through globalThis so every copy of this module (e.g. another
+// plugin importing it by path) sees the same emitters
+const EMITTERS = Symbol.for("opencode-lb.lifecycle")
+const SOURCES = Symbol.for("opencode-lb.lifecycle.sources")
+
+type SharedStore = typeof globalThis & {
+  [EMITTERS]?: Map<string, LifecycleEmitter>
+  [SOURCES]?: Map<string, LifecycleEmitter>
+}
+
+/**
+ * The shared lifecycle emitter for a project directory, created on first use.
+ * opencode-lb's events are forwarded to it; other plugins can subscribe to it
+ * whether they load before or after opencode-lb.
+ */
+export function lifecycleEmitter(directory: string): LifecycleEmitter {
+  const emitters = ((globalThis as SharedStore)[EMITTERS] ??= new Map())
+  let emitter = emitters.get(directory)
+  if (!emitter) {
+    emitter = new LifecycleEmitter()
+    emitters.set(directory, emitter)
+  }
+  return emitter
+}
+
+/**
+ * Forward every event of `source` to the shared emitter for `directory`,
+ * without waiting for the shared emitter's handlers. Only the most recently
+ * shared source of a directory is forwarded, so an instance replaced by a
+ * re-initialised plugin goes quiet. Returns a function that disconnects it.
+ */
+export function shareEmitter(directory: string, source: LifecycleEmitter): () => void {
+  const shared = lifecycleEmitter(directory)
+  const sources = ((globalThis as SharedStore)[SOURCES] ??= new Map())
+  sources.set(directory, source)
+  const off = source.on("agent:*", (payload, event) => {
+    if (sources.get(directory) === source) void shared.emit(event, payload)
+  })
+  return () => {
+    off()
+    if (sources.get(directory) === source) sources.delete(directory)
+  }
+}
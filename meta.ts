@@ -0,0 +1,91 @@
+/**
+ * Agent metadata stored on lb issue descriptions.
+ *
+ * The plugin owns a single fenced block in the description:
+ *
+ *   ```opencode-lb
+ *   {"v":1,"port":62109,"tmux":"AGE_42","session":"ses_abc","provider":"anthropic","model":"claude-sonnet-4-6","base":"AGE-41"}
+ *   ```
+ *
+ * Only that block is ever rewritten — the human-written description around it
+ * is preserved. The legacy "Port: X, tmux: Y, session: Z" line (which used to
+ * replace the whole description) is still parsed, and replaced on next write.
+ */
+
+export const META_VERSION = 1
+
+export interface AgentMeta {
+  port: number
+  tmux: string
+  session: string
+  provider?: string
+  model?: string
+  /** Branch the worktree was created from */
+  base?: string
+  /** Issue whose agent branch this one is stacked on */
+  stackedOn?: string
+}
+
+const BLOCK_RE = /\n*```opencode-lb\n([\s\S]*?)\n```\n*/
+const LEGACY_LINE_RE = /^Port:\s*\d+,\s*tmux:.*$/m
+
+/**
+ * Render metadata as the fenced opencode-lb block.
+ */
+export function serializeAgentMeta(meta: AgentMeta): string {
+  return "```opencode-lb\n" + JSON.stringify({ v: META_VERSION, ...meta }) + "\n```"
+}
+
+/**
+ * Parse agent metadata from an issue description — the fenced block first,
+ * then the legacy one-line format.
+ */
+export function parseAgentMeta(desc: string): AgentMeta | null {
+  const block = desc.match(BLOCK_RE)
+  if (block) {
+    try {
+      const data = JSON.parse(block[1])
+      if (typeof data.port === "number" && data.tmux && data.session) {
+        const { v: _v, ...meta } = data
+        return meta as AgentMeta
+      }
+    } catch {
+      // Fall through to legacy parsing
+    }
+  }
+  return parseLegacyAgentMeta(desc)
+}
+
+/**
+ * Parse "Port: 12345, tmux: AGE_42, session: abc-123[, model: provider/model]".
+ */
+function parseLegacyAgentMeta(desc: string): AgentMeta | null {
+  const portMatch = desc.match(/Port:\s*(\d+)/)
+  const tmuxMatch = desc.match(/tmux:\s*(\S+?)(?:,|\s|$)/)
+  const sessionMatch = desc.match(/session:\s*(\S+?)(?:,|\s|$)/)
+  const modelMatch = desc.match(/model:\s*([^\s,/]+)\/([^\s,]+)/)
+  if (!portMatch || !tmuxMatch || !sessionMatch) return null
+  return {
+    port: parseInt(portMatch[1], 10),
+    tmux: tmuxMatch[1],
+    session: sessionMatch[1],
+    ...(modelMatch ? { provider: modelMatch[1], model: modelMatch[2] } : {}),
+  }
+}
+
+/**
+ * Remove the metadata block (and any legacy metadata line), leaving the
+ * human-written description.
+ */
+export function stripAgentMeta(desc: string): string {
+  return desc.replace(BLOCK_RE, "\n\n").replace(LEGACY_LINE_RE, "").trim()
+}
+
+/**
+ * Insert or replace the metadata block, preserving the rest of the description.
+ */
+export function upsertAgentMeta(desc: string, meta: AgentMeta): string {
+  const body = stripAgentMeta(desc)
+  const block = serializeAgentMeta(meta)
+  return body ? `${body}\n\n${block}` : block
+}
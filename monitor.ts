@@ -0,0 +1,55 @@
+/**
+ * Base for the timer-driven agent monitors (budgets, timeouts, stalls,
+ * permission requests).
+ *
+ * A check runs every interval and never overlaps the previous one. Before
+ * each pass, per-agent state of agents that left the registry is dropped.
+ * Agents whose server can't be reached are skipped by the monitors —
+ * restarting those is the watchdog's job.
+ */
+
+import type { AgentRegistry } from "./registry"
+
+export abstract class AgentMonitor {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private checking = false
+
+  constructor(protected registry: AgentRegistry) {}
+
+  start(intervalMs: number): void {
+    if (this.timer) return
+    this.timer = setInterval(() => {
+      this.check().catch(() => {})
+    }, intervalMs)
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+
+  /**
+   * Check every agent once. A no-op while the previous check is still running.
+   */
+  async check(): Promise<void> {
+    if (this.checking) return
+    this.checking = true
+    try {
+      for (const issueId of [...this.tracked()]) {
+        if (!this.registry.has(issueId)) this.forget(issueId)
+      }
+      await this.checkAgents()
+    } finally {
+      this.checking = false
+    }
+  }
+
+  /** Agents this monitor keeps state for */
+  protected abstract tracked(): Iterable<string>
+
+  /** Drop the state kept for an agent that left the registry */
+  protected abstract forget(issueId: string): void
+
+  /** One pass over the registered agents */
+  protected abstract checkAgents(): Promise<void>
+}
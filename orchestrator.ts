@@ -2,27 +2,55 @@
  * Orchestration logic — dispatch, check, followup, abort, cleanup, reconstruct.
  */
 
+import { existsSync } from "fs"
 import type { PluginInput } from "@opencode-ai/plugin"
-import type { AgentRegistry } from "./registry"
+import type { AgentEntry, AgentRegistry } from "./registry"
 import type { LifecycleEmitter } from "./lifecycle"
+import type { DispatchQueue } from "./queue"
+import type { AgentEventStreams } from "./events"
+import type { ProcessBackend } from "./backend"
+import type { UsageMonitor } from "./usage"
+import type { StallDetector } from "./stall"
+import type { PermissionRelay } from "./permissions"
+import { type PortRange, allocatePort, releasePort, waitForServer } from "./ports"
+import { DEFAULT_CONFIG } from "./config"
+import { chooseTemplate, extractAcceptanceCriteria, issueLabels, renderTemplate } from "./templates"
+import { blockerIds, buildIssueBundle } from "./bundle"
+import { type AgentMeta, parseAgentMeta, stripAgentMeta, upsertAgentMeta } from "./meta"
+import { type CompletionChecklist, describeVerdict, verifyCompletion } from "./verify"
+import { archiveWorktree } from "./archive"
+import { exportTranscript } from "./transcript"
 
 type Shell = PluginInput["$"]
 
+export const DEFAULT_MODEL = "claude-sonnet-4-6"
+export const DEFAULT_PROVIDER = "anthropic"
+
+// Lifecycle events shown by lb_check
+const RECENT_EVENTS = 20
+
 /**
- * Fetch the issue description from lb show --json.
+ * Fetch the issue from lb show --json. Returns null if lb fails or isn't JSON.
  */
-async function getIssueDescription($: Shell, issueId: string): Promise<string> {
+async function getIssue($: Shell, issueId: string): Promise<any | null> {
   try {
     const json = await $`lb show ${issueId} --json`.quiet().text()
-    const issue = JSON.parse(json.trim())
-    return issue.description || issue.title || ""
+    return JSON.parse(json.trim())
   } catch {
-    // Fallback to non-json
-    try {
-      return (await $`lb show ${issueId}`.quiet().text()).trim()
-    } catch {
-      return ""
-    }
+    return null
+  }
+}
+
+/**
+ * Resolve the issue description (without plugin metadata), falling back to
+ * plain lb show output.
+ */
+async function getIssueDescription($: Shell, issueId: string, issue: any | null): Promise<string> {
+  if (issue) return stripAgentMeta(issue.description || "") || issue.title || ""
+  try {
+    return stripAgentMeta((await $`lb show ${issueId}`.quiet().text()).trim())
+  } catch {
+    return ""
   }
 }
 
@@ -77,13 +105,104 @@ async function getSessionStatus(port: number, sessionId: string): Promise<string
   }
 }
 
+/**
+ * One-line agent state: the session status, refined by the completion
+ * checklist once the agent has stopped.
+ */
+function agentState(sessionStatus: string, completion: CompletionChecklist): string {
+  if (sessionStatus === "running") return "working"
+  if (sessionStatus === "unreachable") return "unreachable"
+  return describeVerdict(completion.verdict)
+}
+
+/**
+ * Metadata block contents for a registered agent.
+ */
+function agentMeta(agent: AgentEntry): AgentMeta {
+  return {
+    port: agent.port,
+    tmux: agent.tmuxSession,
+    session: agent.sessionId,
+    provider: agent.provider,
+    model: agent.model,
+    ...(agent.baseBranch ? { base: agent.baseBranch } : {}),
+    ...(agent.stackedOn ? { stackedOn: agent.stackedOn } : {}),
+  }
+}
+
+interface BaseResolution {
+  /** Branch the worktree starts from (passed as --base); unset on a detached HEAD, where lb's default applies */
+  baseBranch?: string
+  /** Blocker issue whose agent branch is the base */
+  stackedOn?: string
+  warning?: string
+}
+
+/**
+ * Pick the branch a new worktree starts from.
+ *
+ * An explicit `base` is either a branch name or the ID of an issue with a
+ * registered agent (its branch is used). Without one, an issue blocked by an
+ * issue that still has an agent is stacked on that agent's branch, so it can
+ * start before the blocker merges. Otherwise the current branch is the base
+ * (lb's default base when HEAD is detached).
+ */
+async function resolveBase(
+  $: Shell,
+  registry: AgentRegistry,
+  issue: any | null,
+  base?: string,
+): Promise<BaseResolution> {
+  const agentBranch = (id: string) => {
+    const branch = registry.get(id)?.branch
+    return branch && branch !== "(no worktree)" ? branch : null
+  }
+
+  if (base) {
+    const branch = agentBranch(base)
+    return branch ? { baseBranch: branch, stackedOn: base } : { baseBranch: base }
+  }
+
+  const stackable = blockerIds(issue).filter((id) => agentBranch(id))
+  if (stackable.length > 0) {
+    const [blocker, ...others] = stackable
+    return {
+      baseBranch: agentBranch(blocker)!,
+      stackedOn: blocker,
+      warning: others.length
+        ? `also blocked by ${others.join(", ")} (agents running) — stacked on ${blocker} only`
+        : undefined,
+    }
+  }
+
+  const current = (await $`git rev-parse --abbrev-ref HEAD`.quiet().nothrow().text()).trim()
+  return current && current !== "HEAD" ? { baseBranch: current } : {}
+}
+
+/**
+ * Project-level settings dispatch needs beyond the tool arguments.
+ */
+export interface DispatchOptions {
+  /** Port range for opencode serve */
+  ports: PortRange
+  /** Project root — prompt templates are read from .lb/templates here */
+  directory: string
+  /** Max characters of related-issue context in the prompt */
+  contextBudget: number
+}
+
 /**
  * Dispatch an issue to a background worktree agent.
- * Creates worktree, launches opencode serve in tmux, sends the prompt.
- * Auto-injects the issue description into the prompt.
+ * Creates worktree, launches opencode serve via the process backend, sends the prompt.
+ * The prompt is rendered from the issue and a project template (chosen by
+ * label or the template argument) and returned in the result.
+ * Issues blocked by an issue with a running agent are stacked on that agent's
+ * branch unless `base` says otherwise.
+ * On failure, completed steps are rolled back in reverse order.
  */
 export async function dispatch(
   $: Shell,
+  backend: ProcessBackend,
   registry: AgentRegistry,
   emitter: LifecycleEmitter,
   args: {
@@ -93,18 +212,32 @@ export async function dispatch(
     provider?: string
     slug?: string
     skipWorktree?: boolean
+    template?: string
+    base?: string
+    maxCost?: number
+    maxTokens?: number
+    maxRuntimeMinutes?: number
+    inactivityMinutes?: number
+    cleanupOnTimeout?: boolean
+    autoApprove?: string[]
+  },
+  options: DispatchOptions = {
+    ports: DEFAULT_CONFIG.ports,
+    directory: process.cwd(),
+    contextBudget: DEFAULT_CONFIG.contextBudget,
   },
 ): Promise<string> {
   const { issueId, prompt, model, provider, slug, skipWorktree } = args
-  const modelId = model || "claude-sonnet-4-6"
-  const providerId = provider || "anthropic"
+  const modelId = model || DEFAULT_MODEL
+  const providerId = provider || DEFAULT_PROVIDER
 
   // Derive branch name
   const branch = slug
     ? `${issueId}-${slug}`
     : `${issueId}`
 
-  // tmux session name: underscores not hyphens (hyphens + numbers confuse tmux)
+  // Process name (tmux session name for the tmux backend): underscores not
+  // hyphens (hyphens + numbers confuse tmux)
   const tmuxSession = issueId.replace(/-/g, "_")
 
   // Check if already dispatched
@@ -116,67 +249,143 @@ export async function dispatch(
     })
   }
 
+  // Every completed step is recorded; steps with side effects push an undo
+  // action so a failure part-way through leaves nothing behind.
+  const completed: string[] = []
+  const undoStack: { step: string; undo: () => Promise<unknown> }[] = []
+  let currentStep = ""
+  const step = async <T>(
+    name: string,
+    run: () => Promise<T>,
+    undo?: (result: T) => Promise<unknown>,
+  ): Promise<T> => {
+    currentStep = name
+    const result = await run()
+    completed.push(name)
+    if (undo) undoStack.push({ step: name, undo: () => undo(result) })
+    return result
+  }
+
   try {
-    // 0. Auto-inject issue description into prompt
-    const issueDesc = await getIssueDescription($, issueId)
-    const fullPrompt = issueDesc
-      ? `## Issue: ${issueId}\n\n${issueDesc}\n\n---\n\n${prompt}`
-      : prompt
+    // 0. Render the prompt from the issue + template
+    const issue = await step("fetch issue", () => getIssue($, issueId))
+    const priorStatus: string | null = issue?.status ?? null
+    const issueDesc = await getIssueDescription($, issueId, issue)
+    const active = new Set([...registry.entries()].map(([id]) => id))
+    const context = await buildIssueBundle($, issue, active, options.contextBudget)
+    const base = skipWorktree
+      ? null
+      : await step("resolve base branch", () => resolveBase($, registry, issue, args.base))
+    const { template, fullPrompt } = await step("render prompt", async () => {
+      const chosen = await chooseTemplate(options.directory, issueLabels(issue), args.template)
+      if (chosen.name === "builtin" && (skipWorktree || !issue)) {
+        // Read-only tasks (no branch to push) and issues lb couldn't load keep the plain format
+        const header = [issueDesc, context].filter(Boolean).join("\n\n")
+        return {
+          template: null,
+          fullPrompt: header ? `## Issue: ${issueId}\n\n${header}\n\n---\n\n${prompt}` : prompt,
+        }
+      }
+      const baseBranch =
+        base?.baseBranch ??
+        ((await $`git rev-parse --abbrev-ref HEAD`.quiet().nothrow().text()).trim() || "main")
+      return {
+        template: chosen.name,
+        fullPrompt: renderTemplate(chosen.source, {
+          issueId,
+          title: issue?.title ?? "",
+          description: issueDesc,
+          branch,
+          baseBranch,
+          acceptanceCriteria: extractAcceptanceCriteria(issue, issueDesc),
+          context,
+          prompt,
+        }),
+      }
+    })
 
     // 1. Claim the issue
-    await $`lb update ${issueId} --status in_progress`.quiet()
+    await step(
+      "claim issue",
+      () => $`lb update ${issueId} --status in_progress`.quiet(),
+      async () => {
+        if (!priorStatus) throw new Error("prior status unknown — left in_progress")
+        await $`lb update ${issueId} --status ${priorStatus}`.quiet()
+      },
+    )
     await emitter.emit("agent:claimed", { issueId, branch })
 
     let wtPath: string
 
     if (skipWorktree) {
       // Use repo root directly (read-only tasks)
-      wtPath = (await $`git rev-parse --show-toplevel`.quiet().text()).trim()
+      wtPath = await step("resolve repo root", async () =>
+        (await $`git rev-parse --show-toplevel`.quiet().text()).trim(),
+      )
     } else {
-      // 2. Create worktree
-      await $`lb worktree create ${branch}`.quiet()
+      // 2. Create worktree on top of the base branch
+      await step(
+        "create worktree",
+        () =>
+          base?.baseBranch
+            ? $`lb worktree create ${branch} --base ${base.baseBranch}`.quiet()
+            : $`lb worktree create ${branch}`.quiet(),
+        () => $`lb worktree delete ${branch} --force`.quiet(),
+      )
 
       // 3. Resolve worktree path (sibling of current repo root)
-      const repoRoot = (await $`git rev-parse --show-toplevel`.quiet().text()).trim()
-      const parentDir = (await $`dirname ${repoRoot}`.quiet().text()).trim()
-      wtPath = `${parentDir}/${branch}`
+      wtPath = await step("resolve worktree path", async () => {
+        const repoRoot = (await $`git rev-parse --show-toplevel`.quiet().text()).trim()
+        const parentDir = (await $`dirname ${repoRoot}`.quiet().text()).trim()
+        return `${parentDir}/${branch}`
+      })
     }
 
-    // 4. Launch opencode serve in tmux
-    const logFile = `/tmp/opencode-${issueId}.log`
-    await $`rm -f ${logFile}`.quiet()
-    // Wrap in bash -c so pipes/redirects work correctly inside tmux
-    // and quiet() to prevent any output bleeding into the current terminal
-    await $`tmux new-session -d -s ${tmuxSession} -c ${wtPath} bash -c ${"opencode serve 2>&1 | tee " + logFile}`.quiet()
+    // 4. Launch opencode serve on a reserved port
+    const logFile = logFileFor(issueId)
+    const port = await step(
+      "launch opencode serve",
+      () => launchServe($, backend, registry, options.ports, issueId, tmuxSession, wtPath),
+      async (port) => {
+        releasePort(port)
+        await backend.stop(tmuxSession)
+        await $`rm -f ${logFile}`.quiet()
+      },
+    )
 
-    // 5. Wait for server to start and capture port
-    const port = await waitForPort($, logFile)
+    // 5. Wait for the server to answer on its port
+    await step("wait for server", async () => {
+      await waitForServer($, port, logFile)
+      releasePort(port)
+    })
 
     // 6. Create session
-    const sessionResp = await fetch(`http://localhost:${port}/session`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ title: issueId }),
+    const sessionId = await step("create session", async () => {
+      const sessionResp = await fetch(`http://localhost:${port}/session`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: issueId }),
+      })
+      if (!sessionResp.ok) throw new Error(`POST /session returned HTTP ${sessionResp.status}`)
+      const sessionData = (await sessionResp.json()) as { id: string }
+      if (!sessionData?.id) throw new Error("POST /session returned no session id")
+      return sessionData.id
     })
-    const sessionData = (await sessionResp.json()) as { id: string }
-    const sessionId = sessionData.id
 
     // 7. Send the task prompt (with auto-injected issue description)
-    await fetch(`http://localhost:${port}/session/${sessionId}/prompt_async`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        parts: [{ type: "text", text: fullPrompt }],
-        model: { providerID: providerId, modelID: modelId },
-      }),
+    await step("send prompt", async () => {
+      const promptResp = await fetch(`http://localhost:${port}/session/${sessionId}/prompt_async`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          parts: [{ type: "text", text: fullPrompt }],
+          model: { providerID: providerId, modelID: modelId },
+        }),
+      })
+      if (!promptResp.ok) throw new Error(`POST /prompt_async returned HTTP ${promptResp.status}`)
     })
 
-    // 8. Record metadata on the lb issue
-    const meta = `Port: ${port}, tmux: ${tmuxSession}, session: ${sessionId}`
-    await $`lb update ${issueId} -d ${meta}`.quiet()
-
-    // 9. Register in memory
-    const entry = {
+    const entry: AgentEntry = {
       issueId,
       port,
       sessionId,
@@ -184,43 +393,305 @@ export async function dispatch(
       branch: skipWorktree ? "(no worktree)" : branch,
       worktreePath: wtPath,
       dispatchedAt: new Date().toISOString(),
+      model: modelId,
+      provider: providerId,
+      ...(base?.baseBranch ? { baseBranch: base.baseBranch } : {}),
+      ...(base?.stackedOn ? { stackedOn: base.stackedOn } : {}),
+      ...(args.maxCost != null || args.maxTokens != null
+        ? {
+            budget: {
+              ...(args.maxCost != null ? { maxCost: args.maxCost } : {}),
+              ...(args.maxTokens != null ? { maxTokens: args.maxTokens } : {}),
+            },
+          }
+        : {}),
+      ...(args.maxRuntimeMinutes != null || args.inactivityMinutes != null || args.cleanupOnTimeout != null
+        ? {
+            timeouts: {
+              ...(args.maxRuntimeMinutes != null ? { maxRuntimeMinutes: args.maxRuntimeMinutes } : {}),
+              ...(args.inactivityMinutes != null ? { inactivityMinutes: args.inactivityMinutes } : {}),
+              ...(args.cleanupOnTimeout != null ? { cleanup: args.cleanupOnTimeout } : {}),
+            },
+          }
+        : {}),
+      ...(args.autoApprove?.length ? { autoApprove: args.autoApprove } : {}),
+    }
+
+    // 8. Record metadata on the lb issue (only the plugin's own block is rewritten).
+    // Without the issue the current description is unknown, and writing would replace it
+    if (issue) {
+      const desc = upsertAgentMeta(issue.description || "", agentMeta(entry))
+      await step(
+        "record metadata",
+        () => $`lb update ${issueId} -d ${desc}`.quiet(),
+        () => $`lb update ${issueId} -d ${issue.description || ""}`.quiet(),
+      )
+    } else {
+      entry.warnings = ["metadata not recorded on the issue (lb show failed) — only the state file knows this agent"]
     }
+
+    // 9. Register in memory
     registry.set(issueId, entry)
 
     // 10. Emit running event — serve is up and session created
     await emitter.emit("agent:running", { issueId, branch, port })
 
-    return JSON.stringify({ status: "dispatched", ...entry })
+    return JSON.stringify({
+      status: "dispatched",
+      ...entry,
+      ...(base?.warning ? { stackWarning: base.warning } : {}),
+      template,
+      prompt: fullPrompt,
+    })
   } catch (e: any) {
+    const error = e?.message || String(e)
+    const rolledBack = await rollback(undoStack)
+    await emitter.emit("agent:errored", {
+      issueId,
+      branch,
+      error: `Dispatch failed at "${currentStep}": ${error}`,
+    })
     return JSON.stringify({
       status: "error",
       issueId,
-      error: e?.message || String(e),
+      failedStep: currentStep,
+      error,
+      completedSteps: completed,
+      rolledBack,
     })
   }
 }
 
 /**
- * Wait for opencode serve to print its port, with timeout.
+ * Undo completed dispatch steps in reverse order. Each undo is attempted
+ * even if an earlier one fails; the outcome of every step is reported.
  */
-async function waitForPort($: Shell, logFile: string, timeoutMs = 30000): Promise<number> {
-  const start = Date.now()
-  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+async function rollback(
+  undoStack: { step: string; undo: () => Promise<unknown> }[],
+): Promise<{ step: string; ok: boolean; error?: string }[]> {
+  const results: { step: string; ok: boolean; error?: string }[] = []
+  for (const { step, undo } of [...undoStack].reverse()) {
+    try {
+      await undo()
+      results.push({ step, ok: true })
+    } catch (e: any) {
+      results.push({ step, ok: false, error: e?.message || String(e) })
+    }
+  }
+  return results
+}
 
-  while (Date.now() - start < timeoutMs) {
+/**
+ * Enqueue several issues for dispatch — either explicit IDs or the top N
+ * from lb ready. Starts as many as the concurrency limit allows right away.
+ */
+export async function dispatchMany(
+  $: Shell,
+  registry: AgentRegistry,
+  queue: DispatchQueue,
+  args: {
+    issueIds?: string[]
+    top?: number
+    prompt: string
+    model?: string
+    provider?: string
+    template?: string
+  },
+): Promise<string> {
+  const { issueIds, top, prompt, model, provider, template } = args
+
+  let ids: string[]
+  if (issueIds && issueIds.length > 0) {
+    ids = issueIds
+  } else if (top && top > 0) {
     try {
-      const log = await $`cat ${logFile}`.quiet().nothrow().text()
-      // Match "listening on http://127.0.0.1:XXXXX" or "listening on http://localhost:XXXXX"
-      const match = log.match(/listening on http:\/\/(?:127\.0\.0\.1|localhost):(\d+)/)
-      if (match) {
-        return parseInt(match[1], 10)
-      }
-    } catch {
-      // File may not exist yet
+      const ready = JSON.parse((await $`lb ready --json`.quiet().text()).trim()) as any[]
+      ids = ready
+        .map((issue) => issue.identifier || issue.id)
+        .filter((id) => id && !registry.has(id) && !queue.has(id))
+        .slice(0, top)
+    } catch (e: any) {
+      return JSON.stringify({
+        status: "error",
+        error: `lb ready failed: ${e?.message || String(e)}`,
+      })
+    }
+  } else {
+    return JSON.stringify({
+      status: "error",
+      error: "Provide issueIds or top",
+    })
+  }
+
+  const skipped: string[] = []
+  for (const issueId of ids) {
+    if (registry.has(issueId)) {
+      skipped.push(issueId)
+      continue
     }
-    await sleep(500)
+    queue.enqueue({ issueId, prompt, model, provider, template })
   }
-  throw new Error(`Timed out waiting for opencode serve to start (${timeoutMs}ms)`)
+
+  const started = (await queue.drain()).map((r) => JSON.parse(r))
+
+  return JSON.stringify({
+    status: "enqueued",
+    started,
+    queued: queue.list(),
+    skipped,
+    maxConcurrent: queue.limit(),
+  })
+}
+
+function logFileFor(issueId: string): string {
+  return `/tmp/opencode-${issueId}.log`
+}
+
+/**
+ * Start opencode serve detached via the process backend on a freshly
+ * reserved port, logging to /tmp. Returns the port.
+ */
+async function launchServe(
+  $: Shell,
+  backend: ProcessBackend,
+  registry: AgentRegistry,
+  ports: PortRange,
+  issueId: string,
+  tmuxSession: string,
+  cwd: string,
+): Promise<number> {
+  const logFile = logFileFor(issueId)
+  await $`rm -f ${logFile}`.quiet()
+  const taken = [...registry.entries()].map(([, agent]) => agent.port)
+  const port = allocatePort(ports, taken)
+  try {
+    await backend.start(tmuxSession, cwd, `opencode serve --port ${port} --hostname 127.0.0.1`, logFile)
+  } catch (e) {
+    releasePort(port)
+    throw e
+  }
+  return port
+}
+
+/**
+ * Restart a dead opencode serve in the agent's existing worktree.
+ * Resumes the previous session if the new server still knows it and tells it
+ * to continue; otherwise creates a new session seeded with a summary of the
+ * work so far.
+ */
+export async function restartAgent(
+  $: Shell,
+  backend: ProcessBackend,
+  registry: AgentRegistry,
+  emitter: LifecycleEmitter,
+  issueId: string,
+  reason: string,
+  ports: PortRange = DEFAULT_CONFIG.ports,
+): Promise<string> {
+  const agent = registry.get(issueId)
+  if (!agent) {
+    return JSON.stringify({ status: "not_found", issueId })
+  }
+
+  try {
+    // Keep the tail of the crashed server's output before the log is reset
+    const logTail = (
+      await $`tail -n 30 ${logFileFor(issueId)}`.quiet().nothrow().text()
+    ).trim()
+
+    await backend.stop(agent.tmuxSession)
+    const port = await launchServe($, backend, registry, ports, issueId, agent.tmuxSession, agent.worktreePath)
+    try {
+      await waitForServer($, port, logFileFor(issueId))
+    } finally {
+      releasePort(port)
+    }
+
+    // opencode persists sessions per project, so the new server usually knows the old one
+    let sessionId = agent.sessionId
+    let resumed = false
+    try {
+      const resp = await fetch(`http://localhost:${port}/session/${agent.sessionId}`)
+      resumed = resp.ok
+    } catch {}
+
+    // A resumed session sits idle until told to carry on
+    let prompt = `The server was restarted (${reason}). Continue where you left off — inspect the worktree before redoing anything.`
+    if (!resumed) {
+      const sessionResp = await fetch(`http://localhost:${port}/session`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: issueId }),
+      })
+      if (!sessionResp.ok) throw new Error(`POST /session returned HTTP ${sessionResp.status}`)
+      sessionId = ((await sessionResp.json()) as { id: string }).id
+
+      const summary = await summarizeProgress($, agent.worktreePath, logTail)
+      const issueDesc = await getIssueDescription($, issueId, await getIssue($, issueId))
+      prompt = [
+        `## Issue: ${issueId}`,
+        issueDesc,
+        "---",
+        `Your previous session (${agent.sessionId}) was lost when the server crashed (${reason}). Continue the work on this issue from where it left off — inspect the worktree before redoing anything.`,
+        summary,
+      ]
+        .filter(Boolean)
+        .join("\n\n")
+    }
+
+    const promptResp = await fetch(`http://localhost:${port}/session/${sessionId}/prompt_async`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        parts: [{ type: "text", text: prompt }],
+        model: { providerID: agent.provider, modelID: agent.model },
+      }),
+    })
+    if (!promptResp.ok) throw new Error(`POST /prompt_async returned HTTP ${promptResp.status}`)
+
+    const entry = { ...agent, port, sessionId }
+    registry.set(issueId, entry)
+
+    const issue = await getIssue($, issueId)
+    if (issue) {
+      const desc = upsertAgentMeta(issue.description || "", agentMeta(entry))
+      await $`lb update ${issueId} -d ${desc}`.quiet().nothrow()
+    }
+
+    await emitter.emit("agent:restarted", {
+      issueId,
+      branch: agent.branch,
+      port,
+      reason: resumed ? `${reason} — session resumed` : `${reason} — new session ${sessionId}`,
+    })
+
+    return JSON.stringify({ status: "restarted", issueId, port, sessionId, resumed })
+  } catch (e: any) {
+    return JSON.stringify({
+      status: "error",
+      issueId,
+      error: e?.message || String(e),
+    })
+  }
+}
+
+/**
+ * Summarize an agent's progress from its worktree (commits, uncommitted
+ * changes) and the last server output, for seeding a replacement session.
+ */
+async function summarizeProgress($: Shell, worktreePath: string, logTail: string): Promise<string> {
+  let summary = "### Progress so far\n"
+  if (worktreePath) {
+    const commits = (
+      await $`git -C ${worktreePath} log --oneline -n 20`.quiet().nothrow().text()
+    ).trim()
+    const status = (await $`git -C ${worktreePath} status --short`.quiet().nothrow().text()).trim()
+    summary += `Recent commits:\n${commits || "(none)"}\n\nUncommitted changes:\n${status || "(none)"}\n`
+  }
+  if (logTail) {
+    summary += `\nLast server output:\n${logTail}\n`
+  }
+  return summary
 }
 
 /**
@@ -228,9 +699,14 @@ async function waitForPort($: Shell, logFile: string, timeoutMs = 30000): Promis
  */
 export async function checkAgent(
   $: Shell,
+  backend: ProcessBackend,
   registry: AgentRegistry,
   issueId: string,
   lines?: number,
+  streams?: AgentEventStreams,
+  usage?: UsageMonitor,
+  permissions?: PermissionRelay,
+  emitter?: LifecycleEmitter,
 ): Promise<string> {
   const agent = registry.get(issueId)
   if (!agent) {
@@ -244,8 +720,10 @@ export async function checkAgent(
   try {
     const limit = lines || 10
 
-    // Get actual session status (running/idle/finished/unreachable)
-    const sessionStatus = await getSessionStatus(agent.port, agent.sessionId)
+    // Get actual session status (running/idle/finished/unreachable) — live from the
+    // event stream when connected, otherwise from the message list
+    const sessionStatus =
+      streams?.status(issueId) ?? (await getSessionStatus(agent.port, agent.sessionId))
 
     // Get git diff stat if worktree exists
     let diffStat: string | null = null
@@ -253,15 +731,22 @@ export async function checkAgent(
       diffStat = await getGitDiffStat($, agent.worktreePath)
     }
 
+    // Idle alone can mean the agent stopped to ask a question — check the worktree
+    const completion = await verifyCompletion($, agent)
+    const state = agentState(sessionStatus, completion)
+    const spend = usage ? await usage.report(issueId) : null
+
     const resp = await fetch(
       `http://localhost:${agent.port}/session/${agent.sessionId}/message`,
     )
     if (!resp.ok) {
       return JSON.stringify({
         status: sessionStatus,
+        state,
         issueId,
         httpStatus: resp.status,
         diffStat,
+        completion,
         agent,
       })
     }
@@ -282,23 +767,35 @@ export async function checkAgent(
 
     return JSON.stringify({
       status: sessionStatus,
+      state,
       issueId,
       port: agent.port,
       tmux: agent.tmuxSession,
       branch: agent.branch,
+      model: `${agent.provider}/${agent.model}`,
       diffStat,
+      completion,
+      usage: spend?.usage,
+      budget: spend?.budget,
+      overBudget: spend?.overBudget,
+      live: streams?.state(issueId) ?? null,
+      pendingPermissions: permissions?.list(issueId),
+      events: emitter?.history(issueId, RECENT_EVENTS).map(({ event, payload }) => ({
+        event,
+        at: payload.timestamp,
+        reason: payload.reason ?? payload.error,
+      })),
+      warnings: agent.warnings,
       recentMessages: texts,
     })
   } catch (e: any) {
-    // Try tmux capture as fallback
+    // Try the process output as fallback (tmux pane or log tail)
     try {
-      const tmuxOutput = (
-        await $`tmux capture-pane -t ${agent.tmuxSession} -p -S -50`.quiet().text()
-      ).trim()
+      const output = await backend.captureOutput(agent.tmuxSession, 50)
       return JSON.stringify({
-        status: "api_unreachable_tmux_fallback",
+        status: `api_unreachable_${backend.kind}_fallback`,
         issueId,
-        tmuxOutput: tmuxOutput.slice(-2000),
+        output: output.slice(-2000),
         agent,
       })
     } catch {
@@ -314,18 +811,25 @@ export async function checkAgent(
 
 /**
  * Send a follow-up message to a background agent.
+ * Uses the agent's recorded model unless overridden; an override is remembered
+ * for later follow-ups.
  */
 export async function followupAgent(
   $: Shell,
   registry: AgentRegistry,
   issueId: string,
   message: string,
+  model?: string,
+  provider?: string,
 ): Promise<string> {
   const agent = registry.get(issueId)
   if (!agent) {
     return JSON.stringify({ status: "not_found", issueId })
   }
 
+  const modelId = model || agent.model
+  const providerId = provider || agent.provider
+
   try {
     const resp = await fetch(
       `http://localhost:${agent.port}/session/${agent.sessionId}/prompt_async`,
@@ -334,14 +838,26 @@ export async function followupAgent(
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           parts: [{ type: "text", text: message }],
-          model: { providerID: "anthropic", modelID: "claude-sonnet-4-6" },
+          model: { providerID: providerId, modelID: modelId },
         }),
       },
     )
 
+    // Remember the override so the next follow-up stays on the same model
+    if (resp.ok && (modelId !== agent.model || providerId !== agent.provider)) {
+      const updated = { ...agent, model: modelId, provider: providerId }
+      registry.set(issueId, updated)
+      const issue = await getIssue($, issueId)
+      if (issue) {
+        const desc = upsertAgentMeta(issue.description || "", agentMeta(updated))
+        await $`lb update ${issueId} -d ${desc}`.quiet().nothrow()
+      }
+    }
+
     return JSON.stringify({
       status: resp.ok ? "sent" : "failed",
       issueId,
+      model: `${providerId}/${modelId}`,
       httpStatus: resp.status,
     })
   } catch (e: any) {
@@ -392,16 +908,31 @@ export async function abortAgent(
 }
 
 /**
- * Clean up a background agent: kill tmux, delete worktree, update lb status.
- * Defaults to force-delete worktree to avoid branch-in-use errors.
+ * Project-level settings cleanup needs beyond the tool arguments.
+ */
+export interface CleanupOptions {
+  /** Project root — archives and transcripts are written under .lb here */
+  directory: string
+  /** Export the full transcript to .lb/transcripts before stopping the server */
+  transcript: boolean
+}
+
+/**
+ * Clean up a background agent: stop the server process, delete worktree, update lb status.
+ * Defaults to force-delete worktree to avoid branch-in-use errors. Uncommitted and
+ * unpushed work is archived to .lb/archive/<ID>/ first; if that fails, or the worktree
+ * path is unknown (partial recovery), the worktree is kept.
+ * With options.transcript the full session transcript is exported before the server stops.
  */
 export async function cleanupAgent(
   $: Shell,
+  backend: ProcessBackend,
   registry: AgentRegistry,
   emitter: LifecycleEmitter,
   issueId: string,
   status?: string,
   force?: boolean,
+  options: CleanupOptions = { directory: process.cwd(), transcript: false },
 ): Promise<string> {
   const agent = registry.get(issueId)
   if (!agent) {
@@ -413,16 +944,51 @@ export async function cleanupAgent(
   // Default force to true to handle branch-in-use errors
   const shouldForce = force !== false
 
-  // 1. Kill tmux session
-  try {
-    await $`tmux kill-session -t ${agent.tmuxSession}`.quiet()
-    results.push("tmux killed")
-  } catch {
-    results.push("tmux already gone")
+  // 0. Archive uncommitted/unpushed work (and the transcript) while the server is still up
+  let archivePath: string | null = null
+  let keepWorktree = false
+  if (agent.branch !== "(no worktree)" && (!agent.worktreePath || !existsSync(agent.worktreePath))) {
+    // Nothing to archive from — deleting would drop the branch and any work on it unseen
+    keepWorktree = true
+    results.push("worktree path unknown, worktree kept (nothing archived)")
+  } else if (agent.branch !== "(no worktree)") {
+    try {
+      const archived = await archiveWorktree($, options.directory, agent)
+      if (archived) {
+        archivePath = archived.path
+        results.push(
+          `archived ${archived.manifest.uncommittedFiles} uncommitted file(s), ${archived.manifest.unpushedCommits} unpushed commit(s)`,
+        )
+      }
+    } catch (e: any) {
+      // Never delete work that couldn't be saved
+      keepWorktree = true
+      results.push(`archive failed, worktree kept: ${e?.stderr?.toString().trim() || e?.message || e}`)
+    }
+  }
+
+  // 0b. Capture the full transcript before the server goes away
+  let transcriptFile: string | null = null
+  if (options.transcript) {
+    const exported = JSON.parse(await exportTranscript($, agent, `${options.directory}/.lb/transcripts`))
+    if (exported.status === "exported") {
+      transcriptFile = exported.file
+      results.push("transcript saved")
+    } else {
+      results.push(`transcript not saved: ${exported.error}`)
+    }
+  }
+
+  // 1. Stop the server process
+  if (await backend.isAlive(agent.tmuxSession)) {
+    await backend.stop(agent.tmuxSession)
+    results.push(`${backend.kind} stopped`)
+  } else {
+    results.push(`${backend.kind} already gone`)
   }
 
   // 2. Delete worktree (skip if no worktree was created)
-  if (agent.branch !== "(no worktree)") {
+  if (agent.branch !== "(no worktree)" && !keepWorktree) {
     try {
       if (shouldForce) {
         await $`lb worktree delete ${agent.branch} --force`.quiet()
@@ -444,6 +1010,15 @@ export async function cleanupAgent(
     results.push(`status update failed: ${e?.message || e}`)
   }
 
+  // 3b. Remove the plugin's metadata block, keeping the human-written description
+  try {
+    const issue = await getIssue($, issueId)
+    if (issue?.description && parseAgentMeta(issue.description)) {
+      await $`lb update ${issueId} -d ${stripAgentMeta(issue.description)}`.quiet()
+      results.push("metadata removed")
+    }
+  } catch {}
+
   // 4. Emit lifecycle event based on final status
   if (newStatus === "in_review") {
     await emitter.emit("agent:finished", { issueId, branch: agent.branch, port: agent.port })
@@ -462,35 +1037,44 @@ export async function cleanupAgent(
 
   // 7. Clean up log file
   try {
-    await $`rm -f /tmp/opencode-${issueId}.log`.quiet()
+    await $`rm -f ${logFileFor(issueId)}`.quiet()
   } catch {}
 
+  // 8. Announce the cleanup itself — every path (tool, timeout, auto cleanup) ends here
+  await emitter.emit("agent:cleaned", { issueId, branch: agent.branch, port: agent.port, reason: `status ${newStatus}` })
+
   return JSON.stringify({
     status: "cleaned_up",
     issueId,
+    archive: archivePath,
+    transcript: transcriptFile,
+    worktreeKept: keepWorktree,
     actions: results,
   })
 }
 
 /**
- * List all running background agents.
+ * List all running background agents, plus any waiting in the dispatch queue.
  */
 export async function listAgents(
   $: Shell,
+  backend: ProcessBackend,
   registry: AgentRegistry,
+  queue?: DispatchQueue,
+  streams?: AgentEventStreams,
+  usage?: UsageMonitor,
+  stalls?: StallDetector,
+  permissions?: PermissionRelay,
 ): Promise<string> {
   const agents: any[] = []
 
   for (const [issueId, agent] of registry.entries()) {
-    // Get actual session status
-    const sessionStatus = await getSessionStatus(agent.port, agent.sessionId)
+    // Get actual session status (live from the event stream when connected)
+    const sessionStatus =
+      streams?.status(issueId) ?? (await getSessionStatus(agent.port, agent.sessionId))
 
-    // Check tmux
-    let tmuxAlive = false
-    try {
-      await $`tmux has-session -t ${agent.tmuxSession}`.quiet()
-      tmuxAlive = true
-    } catch {}
+    // Check the server process
+    const processAlive = await backend.isAlive(agent.tmuxSession)
 
     // Get diff stat
     let diffStat: string | null = null
@@ -498,30 +1082,164 @@ export async function listAgents(
       diffStat = await getGitDiffStat($, agent.worktreePath)
     }
 
+    const completion = await verifyCompletion($, agent)
+    const spend = usage ? await usage.report(issueId) : null
+
     agents.push({
       issueId,
       port: agent.port,
       sessionId: agent.sessionId,
       tmux: agent.tmuxSession,
       branch: agent.branch,
+      baseBranch: agent.baseBranch,
+      stackedOn: agent.stackedOn,
+      model: `${agent.provider}/${agent.model}`,
       reachable: sessionStatus !== "unreachable",
-      tmuxAlive,
+      streamConnected: streams?.isLive(issueId) ?? false,
+      lastTool: streams?.state(issueId)?.lastTool,
+      processAlive,
+      attach: backend.attachCommand(agent.tmuxSession),
       sessionStatus,
+      state: agent.parkedAt ? "parked" : agentState(sessionStatus, completion),
+      stalled: stalls?.diagnosis(issueId),
+      pendingPermissions: permissions?.list(issueId),
+      parkedAt: agent.parkedAt,
+      checklist: completion.checklist,
+      pr: completion.pr?.url,
+      cost: spend?.usage?.cost,
+      tokens: spend?.usage?.totalTokens,
+      budget: spend?.budget,
+      overBudget: spend?.overBudget,
       diffStat,
       dispatchedAt: agent.dispatchedAt,
+      warnings: agent.warnings,
+    })
+  }
+
+  return JSON.stringify({
+    agents,
+    count: agents.length,
+    stacks: branchStacks(registry),
+    spend: usage?.totals(),
+    queued: queue?.list() ?? [],
+    maxConcurrent: queue?.limit(),
+  })
+}
+
+/**
+ * Chains of stacked agents, bottom first — the order their PRs must merge in.
+ * Each chain starts at the branch its bottom agent was created from.
+ */
+function branchStacks(registry: AgentRegistry): { base: string; issues: string[] }[] {
+  const agents = new Map(registry.entries())
+  const children = new Map<string, string[]>()
+  for (const [issueId, agent] of agents) {
+    if (!agent.stackedOn) continue
+    children.set(agent.stackedOn, [...(children.get(agent.stackedOn) ?? []), issueId])
+  }
+
+  const stacks: { base: string; issues: string[] }[] = []
+  const walk = (issueId: string, chain: string[], base: string) => {
+    const next = children.get(issueId) ?? []
+    if (next.length === 0) {
+      if (chain.length > 1) stacks.push({ base, issues: chain })
+      return
+    }
+    // Guard against cycles from hand-edited metadata
+    for (const child of next) if (!chain.includes(child)) walk(child, [...chain, child], base)
+  }
+  for (const [issueId, agent] of agents) {
+    // Bottom of a stack: not stacked on a registered agent
+    if (agent.stackedOn && agents.has(agent.stackedOn)) continue
+    walk(issueId, [issueId], agent.baseBranch ?? "(default)")
+  }
+  return stacks
+}
+
+interface GitWorktree {
+  path: string
+  branch: string | null
+  main: boolean
+}
+
+/**
+ * Parse `git worktree list --porcelain`. The first entry is the main worktree.
+ */
+async function listGitWorktrees($: Shell): Promise<GitWorktree[]> {
+  const out = await $`git worktree list --porcelain`.quiet().nothrow().text()
+  const worktrees: GitWorktree[] = []
+  for (const block of out.trim().split(/\n\s*\n/)) {
+    const path = block.match(/^worktree (.+)$/m)?.[1]
+    if (!path) continue
+    const ref = block.match(/^branch (.+)$/m)?.[1]
+    worktrees.push({
+      path,
+      branch: ref ? ref.replace(/^refs\/heads\//, "") : null,
+      main: worktrees.length === 0,
     })
   }
+  return worktrees
+}
 
-  return JSON.stringify({ agents, count: agents.length })
+/**
+ * Find the worktree and branch an agent runs in — by branch name (issue ID
+ * prefix) first, then by the process's current directory (tmux pane path).
+ */
+async function recoverWorktree(
+  backend: ProcessBackend,
+  issueId: string,
+  tmuxSession: string,
+  worktrees: GitWorktree[],
+): Promise<{ branch: string; worktreePath: string; warning?: string } | null> {
+  const byBranch = worktrees.find(
+    (wt) => wt.branch === issueId || wt.branch?.startsWith(`${issueId}-`),
+  )
+
+  const panePath = await backend.workingDirectory(tmuxSession)
+  // Longest matching worktree path wins (the pane may be in a subdirectory)
+  const byPane = panePath
+    ? worktrees
+        .filter((wt) => panePath === wt.path || panePath.startsWith(`${wt.path}/`))
+        .sort((a, b) => b.path.length - a.path.length)[0]
+    : undefined
+
+  if (byBranch) {
+    return {
+      branch: byBranch.branch!,
+      worktreePath: byBranch.path,
+      warning:
+        byPane && byPane.path !== byBranch.path
+          ? `process is in ${byPane.path}, not the issue's worktree ${byBranch.path}`
+          : undefined,
+    }
+  }
+  if (byPane?.main) {
+    // Dispatched with skipWorktree — running in the repo root
+    return { branch: "(no worktree)", worktreePath: byPane.path }
+  }
+  if (byPane) {
+    return {
+      branch: byPane.branch ?? issueId,
+      worktreePath: byPane.path,
+      warning: byPane.branch ? undefined : "worktree is on a detached HEAD — branch guessed",
+    }
+  }
+  return null
 }
 
 /**
- * Reconstruct registry from tmux sessions + lb issue descriptions.
- * Called once on plugin startup to recover state from a previous session.
+ * Reconstruct registry from the state file, live processes and lb issue descriptions.
+ * Called once on plugin startup (after registry.load()) to recover state from a
+ * previous session. Entries whose sources disagree are kept with warnings.
+ * Entries whose process is gone are dropped — unless `restartDead` (the
+ * watchdog is running) and their worktree still exists, then they are kept,
+ * flagged, for the watchdog to restart.
  */
 export async function reconstructRegistry(
   $: Shell,
+  backend: ProcessBackend,
   registry: AgentRegistry,
+  restartDead = false,
 ): Promise<void> {
   try {
     // Get all in-progress issues from lb (--no-sync: read local cache only, don't hit Linear API)
@@ -542,43 +1260,99 @@ export async function reconstructRegistry(
         }, 10000)
       }),
     ])
-    if (!issuesJson || issuesJson === "[]") return
-
-    const issues = JSON.parse(issuesJson) as any[]
+    // Empty output means lb failed or timed out — don't flag state entries against it
+    const lbAvailable = issuesJson !== ""
+    const issues = (lbAvailable ? JSON.parse(issuesJson) : []) as any[]
 
+    // In-progress issues carrying agent metadata, keyed by issue ID
+    const fromLb = new Map<string, { meta: AgentMeta; issue: any }>()
     for (const issue of issues) {
-      const desc = issue.description || ""
-      // Parse "Port: 12345, tmux: AGE_42, session: abc-123"
-      const portMatch = desc.match(/Port:\s*(\d+)/)
-      const tmuxMatch = desc.match(/tmux:\s*(\S+)/)
-      const sessionMatch = desc.match(/session:\s*(\S+)/)
-
-      if (portMatch && tmuxMatch && sessionMatch) {
-        const port = parseInt(portMatch[1], 10)
-        const tmuxSession = tmuxMatch[1].replace(/,$/g, "")
-        const sessionId = sessionMatch[1].replace(/,$/g, "")
-        const issueId = issue.identifier || issue.id
-
-        // Verify tmux session is alive
-        try {
-          await $`tmux has-session -t ${tmuxSession}`.quiet()
-        } catch {
-          continue // tmux dead, skip
+      const meta = parseAgentMeta(issue.description || "")
+      if (meta) fromLb.set(issue.identifier || issue.id, { meta, issue })
+    }
+
+    const fromState = new Map(registry.entries())
+    const issueIds = new Set([...fromState.keys(), ...fromLb.keys()])
+    const worktrees = await listGitWorktrees($)
+
+    for (const issueId of issueIds) {
+      const saved = fromState.get(issueId)
+      const lb = fromLb.get(issueId)
+      const warnings: string[] = []
+
+      const tmuxSession = saved?.tmuxSession ?? lb!.meta.tmux
+
+      // Verify the server process is alive (parked agents are stopped on purpose)
+      const dead = !saved?.parkedAt && !(await backend.isAlive(tmuxSession))
+      if (dead) warnings.push("server not running at startup — left for the watchdog to restart")
+
+      // Entries saved without a worktree (earlier lb-only recovery) get another git lookup
+      let savedEntry = saved
+      if (saved && !saved.worktreePath) {
+        const recovered = await recoverWorktree(backend, issueId, tmuxSession, worktrees)
+        if (recovered) {
+          savedEntry = { ...saved, branch: recovered.branch, worktreePath: recovered.worktreePath }
+          if (recovered.warning) warnings.push(recovered.warning)
+        } else {
+          warnings.push("partial recovery: worktree not found in git — worktree path unknown")
         }
+      }
 
-        // Derive branch from issue ID
-        const branch = tmuxSession.replace(/_/g, "-")
+      let entry: AgentEntry | undefined
+      if (savedEntry && lb) {
+        // Both sources — the state file is written on every mutation, so it wins
+        if (savedEntry.port !== lb.meta.port) {
+          warnings.push(`port differs: state ${savedEntry.port}, lb ${lb.meta.port}`)
+        }
+        if (savedEntry.sessionId !== lb.meta.session) {
+          warnings.push(`session differs: state ${savedEntry.sessionId}, lb ${lb.meta.session}`)
+        }
+        if (savedEntry.tmuxSession !== lb.meta.tmux) {
+          warnings.push(`tmux differs: state ${savedEntry.tmuxSession}, lb ${lb.meta.tmux}`)
+        }
+        entry = { ...savedEntry, warnings: warnings.length ? warnings : undefined }
+      } else if (savedEntry) {
+        if (lbAvailable) warnings.push("in state file but not in_progress in lb (or metadata missing)")
+        entry = { ...savedEntry, warnings: warnings.length ? warnings : undefined }
+      } else if (lb) {
+        const { meta, issue } = lb
+        warnings.push("recovered from lb metadata only (no state file entry)")
+
+        // Find the real branch + worktree from git; fall back to guessing from the tmux name
+        let branch = meta.tmux.replace(/_/g, "-")
+        let worktreePath = ""
+        const recovered = await recoverWorktree(backend, issueId, meta.tmux, worktrees)
+        if (recovered) {
+          branch = recovered.branch
+          worktreePath = recovered.worktreePath
+          if (recovered.warning) warnings.push(recovered.warning)
+        } else {
+          warnings.push("partial recovery: worktree not found in git — branch guessed, worktree path unknown")
+        }
 
-        registry.set(issueId, {
+        entry = {
           issueId,
-          port,
-          sessionId,
-          tmuxSession,
+          port: meta.port,
+          sessionId: meta.session,
+          tmuxSession: meta.tmux,
           branch,
-          worktreePath: "", // Can't reconstruct reliably, but not needed for API calls
+          worktreePath,
           dispatchedAt: issue.updated_at || new Date().toISOString(),
-        })
+          // Older metadata has no model — assume the defaults it was dispatched with
+          model: meta.model ?? DEFAULT_MODEL,
+          provider: meta.provider ?? DEFAULT_PROVIDER,
+          ...(meta.base ? { baseBranch: meta.base } : {}),
+          ...(meta.stackedOn ? { stackedOn: meta.stackedOn } : {}),
+          warnings,
+        }
+      }
+
+      // A dead process can only be restarted by the watchdog, from its worktree
+      if (!entry || (dead && !(restartDead && entry.worktreePath && existsSync(entry.worktreePath)))) {
+        registry.delete(issueId)
+        continue
       }
+      registry.set(issueId, entry)
     }
   } catch {
     // Silent — reconstruction is best-effort
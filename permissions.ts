@@ -0,0 +1,234 @@
+/**
+ * Permission relay — surfaces permission prompts from background agents.
+ *
+ * A headless opencode serve that needs approval (e.g. for a bash command)
+ * just waits. A timer lists each agent server's pending requests
+ * (GET /permission); new ones are announced as agent:permission so the
+ * coordinator can answer them with lb_permit. Bash commands matching the
+ * project's (or the dispatch's) autoApprove patterns are approved once,
+ * without asking.
+ */
+
+import type { AgentRegistry } from "./registry"
+import type { LifecycleEmitter } from "./lifecycle"
+import type { LbConfig } from "./config"
+import { AgentMonitor } from "./monitor"
+
+export type PermissionReply = "once" | "always" | "reject"
+
+export interface PendingPermission {
+  id: string
+  sessionId: string
+  /** Kind of permission, e.g. "bash", "edit", "webfetch" */
+  permission: string
+  /** What is asked for — for bash, the command(s) */
+  patterns: string[]
+  title: string
+}
+
+// Shell syntax that could chain a second command onto an approved one
+const CHAINING = /[;&|`<>\n]|\$\(/
+
+/**
+ * Pending permission requests on a server, or null if it can't be reached
+ * (or has no permission endpoint).
+ */
+export async function fetchPermissions(port: number): Promise<PendingPermission[] | null> {
+  try {
+    const resp = await fetch(`http://localhost:${port}/permission`, { signal: AbortSignal.timeout(5000) })
+    if (!resp.ok) return null
+    const list = await resp.json()
+    return Array.isArray(list) ? list.map(normalize) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Answer a permission request. Falls back to the older per-session route
+ * for servers without POST /permission/:id/reply.
+ */
+export async function replyPermission(
+  port: number,
+  request: Pick<PendingPermission, "id" | "sessionId">,
+  reply: PermissionReply,
+  message?: string,
+): Promise<{ ok: boolean; error?: string }> {
+  const post = (path: string, body: unknown) =>
+    fetch(`http://localhost:${port}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(10_000),
+    })
+  try {
+    let resp = await post(`/permission/${request.id}/reply`, { reply, ...(message ? { message } : {}) })
+    if (resp.status === 404 && request.sessionId) {
+      resp = await post(`/session/${request.sessionId}/permissions/${request.id}`, { response: reply })
+    }
+    if (resp.ok) return { ok: true }
+    return { ok: false, error: `HTTP ${resp.status}: ${(await resp.text()).slice(0, 200)}` }
+  } catch (e: any) {
+    return { ok: false, error: e.message }
+  }
+}
+
+/**
+ * True if `pattern` (with `*` wildcards) matches the whole command.
+ */
+export function matchesCommand(pattern: string, command: string): boolean {
+  const source = pattern
+    .trim()
+    .split("*")
+    .map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*")
+  return new RegExp(`^${source}$`).test(command.trim())
+}
+
+/**
+ * True if a request is a bash command every part of which matches one of
+ * the allowed patterns. Commands with chaining, pipes, redirects or
+ * substitutions are never auto-approved.
+ */
+export function autoApprovable(request: PendingPermission, allowed: string[]): boolean {
+  if (request.permission !== "bash" || allowed.length === 0 || request.patterns.length === 0) return false
+  return request.patterns.every(
+    (command) => !CHAINING.test(command) && allowed.some((pattern) => matchesCommand(pattern, command)),
+  )
+}
+
+/**
+ * One-line description of a request for toasts and notifications.
+ */
+export function describePermission(request: PendingPermission): string {
+  const what = request.patterns.length > 0 ? request.patterns.join(" && ") : request.title
+  return `${request.permission}: ${what}`
+}
+
+export class PermissionRelay extends AgentMonitor {
+  private pending = new Map<string, PendingPermission[]>()
+  // Request IDs already announced or auto-approved, per agent
+  private seen = new Map<string, Set<string>>()
+
+  constructor(
+    registry: AgentRegistry,
+    private emitter: LifecycleEmitter,
+    private config: LbConfig["permissions"],
+  ) {
+    super(registry)
+  }
+
+  /**
+   * Pending requests of an agent as of the last check.
+   */
+  list(issueId: string): PendingPermission[] {
+    return this.pending.get(issueId) ?? []
+  }
+
+  /**
+   * Patterns auto-approved for an agent: the project's plus the dispatch's.
+   */
+  allowed(issueId: string): string[] {
+    return [...this.config.autoApprove, ...(this.registry.get(issueId)?.autoApprove ?? [])]
+  }
+
+  /**
+   * Refresh every agent's pending requests: auto-approve what the patterns
+   * allow and announce the rest once.
+   */
+  protected async checkAgents(): Promise<void> {
+    for (const [issueId, agent] of [...this.registry.entries()]) {
+      if (agent.parkedAt) continue
+      const requests = await fetchPermissions(agent.port)
+      if (!requests) continue
+
+      const seen = this.seen.get(issueId) ?? new Set<string>()
+      const waiting: PendingPermission[] = []
+      for (const request of requests) {
+        if (seen.has(request.id)) {
+          waiting.push(request)
+          continue
+        }
+        if (autoApprovable(request, this.allowed(issueId))) {
+          const result = await replyPermission(agent.port, request, "once")
+          if (result.ok) continue
+        }
+        waiting.push(request)
+        await this.emitter.emit("agent:permission", {
+          issueId,
+          branch: agent.branch,
+          port: agent.port,
+          reason: `${describePermission(request)} (permission ${request.id})`,
+        })
+      }
+      this.pending.set(issueId, waiting)
+      // Answered requests drop out of the list, so only current IDs are kept
+      this.seen.set(issueId, new Set(requests.map((r) => r.id)))
+    }
+  }
+
+  protected tracked(): Iterable<string> {
+    return this.pending.keys()
+  }
+
+  protected forget(issueId: string): void {
+    this.pending.delete(issueId)
+    this.seen.delete(issueId)
+  }
+
+  /**
+   * Answer one of an agent's pending requests. Without a permission ID the
+   * agent must have exactly one pending request.
+   */
+  async reply(issueId: string, permissionId: string | undefined, reply: PermissionReply, message?: string): Promise<string> {
+    const agent = this.registry.get(issueId)
+    if (!agent) return JSON.stringify({ status: "not_found", issueId })
+
+    const requests = (await fetchPermissions(agent.port)) ?? this.list(issueId)
+    const request = permissionId ? requests.find((r) => r.id === permissionId) : requests[0]
+    if (!permissionId && requests.length > 1) {
+      return JSON.stringify({
+        status: "ambiguous",
+        issueId,
+        error: "Several requests are pending — pass permissionId",
+        pending: requests,
+      })
+    }
+    if (!request) {
+      return JSON.stringify({
+        status: "no_pending_permission",
+        issueId,
+        permissionId,
+        pending: requests,
+      })
+    }
+
+    const result = await replyPermission(agent.port, request, reply, message)
+    if (!result.ok) {
+      return JSON.stringify({ status: "error", issueId, permissionId: request.id, error: result.error })
+    }
+    this.pending.set(issueId, this.list(issueId).filter((r) => r.id !== request.id))
+    return JSON.stringify({
+      status: reply === "reject" ? "rejected" : "approved",
+      issueId,
+      permissionId: request.id,
+      reply,
+      request: describePermission(request),
+    })
+  }
+}
+
+/**
+ * Accept both the current request shape (permission, patterns) and the
+ * older one (type, pattern).
+ */
+function normalize(raw: any): PendingPermission {
+  const patterns = raw.patterns ?? raw.pattern ?? []
+  return {
+    id: String(raw.id),
+    sessionId: raw.sessionID ?? "",
+    permission: raw.permission ?? raw.type ?? "unknown",
+    patterns: (Array.isArray(patterns) ? patterns : [patterns]).map(String),
+    title: raw.title ?? raw.permission ?? raw.type ?? "permission",
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Port allocation for background servers.
+ *
+ * Instead of scraping the serve log for whatever port it picked, the plugin
+ * reserves a free port in a configured range and starts opencode serve on it
+ * explicitly, then confirms readiness with an HTTP probe.
+ */
+
+import type { PluginInput } from "@opencode-ai/plugin"
+import { sleep } from "./util"
+
+type Shell = PluginInput["$"]
+
+export interface PortRange {
+  min: number
+  max: number
+}
+
+// Ports handed out but possibly not bound yet, with reservation expiry.
+// Keeps concurrent dispatches from picking the same port.
+const reserved = new Map<number, number>()
+const RESERVATION_MS = 60_000
+
+/**
+ * Reserve the first free port in range that isn't held by a registered agent
+ * or a recent reservation.
+ */
+export function allocatePort(range: PortRange, taken: Iterable<number>): number {
+  const now = Date.now()
+  for (const [port, expires] of reserved) {
+    if (expires <= now) reserved.delete(port)
+  }
+  const held = new Set(taken)
+
+  for (let port = range.min; port <= range.max; port++) {
+    if (held.has(port) || reserved.has(port)) continue
+    if (!isPortFree(port)) continue
+    reserved.set(port, now + RESERVATION_MS)
+    return port
+  }
+  throw new Error(`No free port in range ${range.min}-${range.max}`)
+}
+
+/**
+ * Release a reservation early (server is up, or startup failed).
+ */
+export function releasePort(port: number): void {
+  reserved.delete(port)
+}
+
+function isPortFree(port: number): boolean {
+  try {
+    const server = Bun.listen({
+      hostname: "127.0.0.1",
+      port,
+      socket: { data() {} },
+    })
+    server.stop(true)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Any HTTP response means the server is listening.
+ */
+export async function isServerUp(port: number, timeoutMs = 3000): Promise<boolean> {
+  try {
+    await fetch(`http://localhost:${port}/session`, { signal: AbortSignal.timeout(timeoutMs) })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Probe the server until it answers. On timeout the error includes the tail
+ * of the server log so the cause is visible without opening the process.
+ */
+export async function waitForServer(
+  $: Shell,
+  port: number,
+  logFile: string,
+  timeoutMs = 30000,
+): Promise<void> {
+  const start = Date.now()
+
+  while (Date.now() - start < timeoutMs) {
+    if (await isServerUp(port, 1000)) return
+    await sleep(500)
+  }
+
+  const tail = (await $`tail -n 20 ${logFile}`.quiet().nothrow().text()).trim()
+  throw new Error(
+    `opencode serve did not answer on port ${port} within ${timeoutMs}ms` +
+      (tail ? `\n--- server log (last 20 lines) ---\n${tail}` : " (server log is empty)"),
+  )
+}
@@ -0,0 +1,160 @@
+/**
+ * Dispatch queue — caps how many background agents run at once.
+ * Issues beyond the limit wait here and start as registered agents finish
+ * or are cleaned up.
+ */
+
+import type { AgentRegistry } from "./registry"
+
+export interface DispatchArgs {
+  issueId: string
+  prompt: string
+  model?: string
+  provider?: string
+  slug?: string
+  skipWorktree?: boolean
+  template?: string
+  base?: string
+  maxCost?: number
+  maxTokens?: number
+  maxRuntimeMinutes?: number
+  inactivityMinutes?: number
+  cleanupOnTimeout?: boolean
+  autoApprove?: string[]
+}
+
+export interface QueuedDispatch extends DispatchArgs {
+  queuedAt: string
+}
+
+export class DispatchQueue {
+  private pending: QueuedDispatch[] = []
+  private finished = new Set<string>()
+  private inFlight = 0
+  private draining = false
+
+  constructor(
+    private registry: AgentRegistry,
+    private maxConcurrent: number,
+    private run: (args: DispatchArgs) => Promise<string>,
+  ) {}
+
+  /**
+   * Number of agents occupying a slot: registered and not yet finished,
+   * plus dispatches currently starting up.
+   */
+  activeCount(): number {
+    let count = this.inFlight
+    for (const [issueId] of this.registry.entries()) {
+      if (!this.finished.has(issueId)) count++
+    }
+    return count
+  }
+
+  hasCapacity(): boolean {
+    return this.activeCount() < this.maxConcurrent
+  }
+
+  has(issueId: string): boolean {
+    return this.pending.some((q) => q.issueId === issueId)
+  }
+
+  /**
+   * 1-based position in the queue, or 0 if not queued.
+   */
+  position(issueId: string): number {
+    return this.pending.findIndex((q) => q.issueId === issueId) + 1
+  }
+
+  /**
+   * Add an issue to the back of the queue. Returns its position.
+   * Re-enqueueing an already queued issue keeps its original position.
+   */
+  enqueue(args: DispatchArgs): number {
+    const existing = this.position(args.issueId)
+    if (existing) return existing
+    this.pending.push({ ...args, queuedAt: new Date().toISOString() })
+    return this.pending.length
+  }
+
+  remove(issueId: string): boolean {
+    const before = this.pending.length
+    this.pending = this.pending.filter((q) => q.issueId !== issueId)
+    return this.pending.length !== before
+  }
+
+  /**
+   * Mark a registered agent as finished — it stays in the registry until
+   * cleanup but no longer counts against the concurrency limit.
+   */
+  markFinished(issueId: string): void {
+    if (this.registry.has(issueId)) this.finished.add(issueId)
+  }
+
+  /**
+   * Dispatch immediately if a slot is free and nobody is waiting,
+   * otherwise queue. Returns the dispatch result or a "queued" result.
+   */
+  async submit(args: DispatchArgs): Promise<string> {
+    if (this.registry.has(args.issueId) || (this.pending.length === 0 && this.hasCapacity())) {
+      return await this.start(args)
+    }
+    const position = this.enqueue(args)
+    return JSON.stringify({
+      status: "queued",
+      issueId: args.issueId,
+      position,
+      active: this.activeCount(),
+      maxConcurrent: this.maxConcurrent,
+    })
+  }
+
+  /**
+   * Start queued dispatches while slots are free. Returns the dispatch
+   * results of everything started by this call.
+   */
+  async drain(): Promise<string[]> {
+    if (this.draining) return []
+    this.draining = true
+    const started: string[] = []
+    try {
+      while (this.pending.length > 0 && this.hasCapacity()) {
+        const next = this.pending.shift()!
+        const { queuedAt: _queuedAt, ...args } = next
+        started.push(await this.start(args))
+      }
+    } finally {
+      this.draining = false
+    }
+    return started
+  }
+
+  list(): { issueId: string; position: number; queuedAt: string }[] {
+    return this.pending.map((q, i) => ({
+      issueId: q.issueId,
+      position: i + 1,
+      queuedAt: q.queuedAt,
+    }))
+  }
+
+  size(): number {
+    return this.pending.length
+  }
+
+  limit(): number {
+    return this.maxConcurrent
+  }
+
+  private async start(args: DispatchArgs): Promise<string> {
+    // Already registered: dispatch only reports the existing agent, whose slot is unchanged
+    if (this.registry.has(args.issueId)) return await this.run(args)
+    // A re-dispatched issue occupies a slot again
+    this.finished.delete(args.issueId)
+    this.inFlight++
+    try {
+      return await this.run(args)
+    } finally {
+      this.inFlight--
+    }
+  }
+}
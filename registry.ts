@@ -1,8 +1,14 @@
 /**
- * In-memory registry of dispatched background agents.
- * Reconstructable from tmux sessions + lb issue descriptions on restart.
+ * Registry of dispatched background agents.
+ * Persisted to a JSON state file (.lb/agents.json) on every mutation and
+ * reconciled with tmux sessions + lb issue descriptions on restart.
  */
 
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs"
+import { dirname } from "path"
+import type { Budget } from "./usage"
+import type { AgentTimeouts } from "./timeouts"
+
 export interface AgentEntry {
   issueId: string
   port: number
@@ -11,13 +17,35 @@ export interface AgentEntry {
   branch: string
   worktreePath: string
   dispatchedAt: string
+  model: string
+  provider: string
+  /** Branch the worktree was created from (absent for skipWorktree agents) */
+  baseBranch?: string
+  /** Blocker issue whose branch this agent's branch is stacked on */
+  stackedOn?: string
+  /** Spend limit set at dispatch (overrides the project budget) */
+  budget?: Budget
+  /** Runtime/inactivity limits set at dispatch (override the project defaults) */
+  timeouts?: AgentTimeouts
+  /** Bash commands this agent may run without asking, on top of the project's list */
+  autoApprove?: string[]
+  /** Set when auto cleanup stopped the server; the worktree is deleted after the grace period */
+  parkedAt?: string
+  /** Disagreements found between state file, lb and tmux during reconstruction */
+  warnings?: string[]
 }
 
 export class AgentRegistry {
   private agents = new Map<string, AgentEntry>()
 
+  /**
+   * @param statePath JSON state file to persist to. Omit for a memory-only registry.
+   */
+  constructor(private statePath?: string) {}
+
   set(issueId: string, entry: AgentEntry): void {
     this.agents.set(issueId, entry)
+    this.persist()
   }
 
   get(issueId: string): AgentEntry | undefined {
@@ -29,7 +57,9 @@ export class AgentRegistry {
   }
 
   delete(issueId: string): boolean {
-    return this.agents.delete(issueId)
+    const deleted = this.agents.delete(issueId)
+    if (deleted) this.persist()
+    return deleted
   }
 
   entries(): IterableIterator<[string, AgentEntry]> {
@@ -43,4 +73,28 @@ export class AgentRegistry {
   toJSON(): Record<string, AgentEntry> {
     return Object.fromEntries(this.agents)
   }
+
+  /**
+   * Load entries from the state file, replacing in-memory state.
+   * A missing or unreadable file leaves the registry empty.
+   */
+  load(): void {
+    if (!this.statePath || !existsSync(this.statePath)) return
+    try {
+      const data = JSON.parse(readFileSync(this.statePath, "utf8")) as Record<string, AgentEntry>
+      this.agents = new Map(Object.entries(data))
+    } catch {
+      // Silent — a corrupt state file is rebuilt from lb + tmux
+    }
+  }
+
+  private persist(): void {
+    if (!this.statePath) return
+    try {
+      mkdirSync(dirname(this.statePath), { recursive: true })
+      writeFileSync(this.statePath, JSON.stringify(this.toJSON(), null, 2) + "\n")
+    } catch {
+      // Silent — persistence is best-effort, lb metadata remains the fallback
+    }
+  }
 }
@@ -0,0 +1,198 @@
+/**
+ * Lifecycle sinks — deliver agent events outside OpenCode.
+ *
+ *   - hook scripts: an executable `.lb/hooks/<event>` (e.g. `.lb/hooks/agent:finished`,
+ *     or `agent-finished` where colons aren't allowed) runs in the project
+ *     root with the payload as JSON on stdin.
+ *   - webhooks: the event is POSTed as JSON to each configured URL, signed
+ *     with HMAC-SHA256 when a secret is set, and retried with backoff on
+ *     network errors, 429 and 5xx.
+ *
+ * Delivery runs in the background so slow receivers never hold up emit();
+ * failures are passed to the `report` callback.
+ */
+
+import { accessSync, constants } from "fs"
+import { createHmac, randomUUID } from "crypto"
+import type { LifecycleEmitter, LifecycleEventType, LifecyclePayload } from "./lifecycle"
+import { sleep } from "./util"
+
+export interface WebhookConfig {
+  url: string
+  /** Events to deliver (default: all) */
+  events?: LifecycleEventType[]
+  /** HMAC-SHA256 signing secret */
+  secret?: string
+  /** Environment variable holding the secret, so it stays out of the config file */
+  secretEnv?: string
+  /** Extra request headers */
+  headers?: Record<string, string>
+  /** Retries after the first attempt (default: 3) */
+  retries?: number
+}
+
+export interface SinkConfig {
+  /** Run executable hook scripts from .lb/hooks */
+  scripts: boolean
+  /** Kill a hook script after this long */
+  scriptTimeoutMs: number
+  webhooks: WebhookConfig[]
+}
+
+export interface SinkFailure {
+  sink: string
+  event: LifecycleEventType
+  issueId: string
+  error: string
+}
+
+const DEFAULT_RETRIES = 3
+const RETRY_START_MS = 1000
+const WEBHOOK_TIMEOUT_MS = 10_000
+
+/**
+ * Signature header value for a webhook body: `sha256=<hex HMAC>`.
+ * Receivers recompute it over the raw body with the shared secret.
+ */
+export function signBody(secret: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`
+}
+
+/**
+ * The JSON document both sinks receive: the event name alongside the payload
+ * fields, e.g. `{"event":"agent:finished","issueId":"AGE-42",…}`.
+ */
+export function eventBody(event: LifecycleEventType, payload: LifecyclePayload): string {
+  return JSON.stringify({ event, ...payload })
+}
+
+/**
+ * Path of the executable hook script for an event, or null if there is none.
+ */
+export function hookScript(directory: string, event: LifecycleEventType): string | null {
+  for (const name of [event, event.replace(":", "-")]) {
+    const path = `${directory}/.lb/hooks/${name}`
+    try {
+      accessSync(path, constants.X_OK)
+      return path
+    } catch {}
+  }
+  return null
+}
+
+/**
+ * Run a hook script with the payload on stdin. Resolves with an error
+ * message on failure (non-zero exit, timeout), null on success.
+ */
+export async function runHookScript(
+  directory: string,
+  path: string,
+  event: LifecycleEventType,
+  payload: LifecyclePayload,
+  timeoutMs: number,
+): Promise<string | null> {
+  try {
+    const proc = Bun.spawn([path, event], {
+      cwd: directory,
+      stdin: new Blob([eventBody(event, payload)]),
+      stdout: "ignore",
+      stderr: "pipe",
+      env: { ...process.env, LB_EVENT: event, LB_ISSUE_ID: payload.issueId },
+    })
+    // Drain stderr while the script runs — a full pipe would block a noisy script
+    const stderr = new Response(proc.stderr).text()
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      proc.kill()
+    }, timeoutMs)
+    const exitCode = await proc.exited
+    clearTimeout(timer)
+    if (timedOut) return `timed out after ${timeoutMs}ms`
+    if (exitCode === 0) return null
+    const message = (await stderr).trim()
+    return `exited ${exitCode}${message ? `: ${message.slice(0, 300)}` : ""}`
+  } catch (e: any) {
+    return e.message
+  }
+}
+
+/**
+ * POST an event to a webhook, retrying with exponential backoff. Resolves
+ * with an error message once all attempts failed, null on success.
+ */
+export async function deliverWebhook(
+  webhook: WebhookConfig,
+  event: LifecycleEventType,
+  payload: LifecyclePayload,
+  retryStartMs = RETRY_START_MS,
+): Promise<string | null> {
+  const body = eventBody(event, payload)
+  const secret = webhook.secret ?? (webhook.secretEnv ? process.env[webhook.secretEnv] : undefined)
+  const headers: Record<string, string> = {
+    ...webhook.headers,
+    "Content-Type": "application/json",
+    "User-Agent": "opencode-lb",
+    "X-Lb-Event": event,
+    // Same ID on every attempt so receivers can drop duplicates
+    "X-Lb-Delivery": randomUUID(),
+    ...(secret ? { "X-Lb-Signature": signBody(secret, body) } : {}),
+  }
+
+  const attempts = (webhook.retries ?? DEFAULT_RETRIES) + 1
+  let lastError = ""
+  let attempt = 1
+  for (; attempt <= attempts; attempt++) {
+    if (attempt > 1) await sleep(retryStartMs * 2 ** (attempt - 2))
+    try {
+      const resp = await fetch(webhook.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      })
+      if (resp.ok) return null
+      lastError = `HTTP ${resp.status}`
+      // Other client errors won't go away on retry
+      if (resp.status < 500 && resp.status !== 429) break
+    } catch (e: any) {
+      lastError = e.message
+    }
+  }
+  return `${lastError} (after ${Math.min(attempt, attempts)} attempt(s))`
+}
+
+export class LifecycleSinks {
+  constructor(
+    private directory: string,
+    private config: SinkConfig,
+    private report: (failure: SinkFailure) => void,
+  ) {}
+
+  /**
+   * Deliver every event the emitter emits.
+   */
+  attach(emitter: LifecycleEmitter): () => void {
+    return emitter.on("agent:*", (payload, event) => {
+      this.deliver(event, payload)
+    })
+  }
+
+  /**
+   * Start delivery of one event to every matching sink, without waiting.
+   */
+  deliver(event: LifecycleEventType, payload: LifecyclePayload): void {
+    const fail = (sink: string) => (error: string | null) => {
+      if (error) this.report({ sink, event, issueId: payload.issueId, error })
+    }
+
+    const script = this.config.scripts ? hookScript(this.directory, event) : null
+    if (script) {
+      runHookScript(this.directory, script, event, payload, this.config.scriptTimeoutMs).then(fail(script))
+    }
+    for (const webhook of this.config.webhooks) {
+      if (webhook.events && !webhook.events.includes(event)) continue
+      deliverWebhook(webhook, event, payload).then(fail(webhook.url))
+    }
+  }
+}
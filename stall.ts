@@ -0,0 +1,127 @@
+/**
+ * Stall detection — notices agents that look busy but aren't getting anywhere.
+ *
+ * Reads each working agent's message stream on a timer and looks for:
+ *   - no progress: still busy, but nothing new for `noProgressMinutes`
+ *   - the same tool call (tool + input) repeated `repeatThreshold` times in a row
+ *   - the same error repeated `repeatThreshold` times in a row
+ * A diagnosis is emitted as agent:stalled once; it is emitted again only if
+ * the diagnosis changes after the agent recovered.
+ */
+
+import type { AgentRegistry } from "./registry"
+import type { LifecycleEmitter } from "./lifecycle"
+import type { LbConfig } from "./config"
+import { AgentMonitor } from "./monitor"
+import { fetchMessages } from "./transcript"
+import { truncate } from "./util"
+
+/**
+ * Diagnose a stall from a session's messages, or null if the agent is
+ * progressing (or not busy).
+ */
+export function diagnoseStall(
+  messages: any[],
+  opts: { repeatThreshold: number; noProgressMinutes: number },
+  now = Date.now(),
+): string | null {
+  if (messages.length === 0) return null
+  const last = messages[messages.length - 1]
+  const lastInfo = last.info ?? last
+  // Only a busy session can stall — a completed assistant message means idle
+  if (lastInfo.role === "assistant" && lastInfo.time?.completed) return null
+
+  const tools = messages
+    .flatMap((m) => m.parts ?? (m.info ?? m).parts ?? [])
+    .filter((p: any) => p.type === "tool")
+  const recent = tools.slice(-opts.repeatThreshold)
+
+  if (recent.length === opts.repeatThreshold) {
+    const signature = (p: any) => `${p.tool} ${JSON.stringify(p.state?.input ?? {})}`
+    if (recent.every((p: any) => signature(p) === signature(recent[0]))) {
+      const input = JSON.stringify(recent[0].state?.input ?? {})
+      return `repeated the same \`${recent[0].tool}\` call ${opts.repeatThreshold} times in a row (${truncate(input, 120)})`
+    }
+
+    const errorOf = (p: any) => (p.state?.status === "error" ? String(p.state.error ?? "error") : null)
+    const firstError = errorOf(recent[0])
+    if (firstError && recent.every((p: any) => errorOf(p) === firstError)) {
+      return `the same error ${opts.repeatThreshold} times in a row: ${truncate(firstError, 160)}`
+    }
+  }
+
+  // Newest timestamp anywhere in the stream
+  let latest = 0
+  for (const m of messages) {
+    const time = (m.info ?? m).time ?? {}
+    latest = Math.max(latest, time.created ?? 0, time.completed ?? 0)
+    for (const p of m.parts ?? []) {
+      const t = p.state?.time ?? p.time ?? {}
+      latest = Math.max(latest, t.start ?? 0, t.end ?? 0)
+    }
+  }
+  const quiet = (now - latest) / 60_000
+  if (latest > 0 && quiet > opts.noProgressMinutes) {
+    const running = tools.length > 0 && tools[tools.length - 1].state?.status === "running"
+      ? ` (last tool \`${tools[tools.length - 1].tool}\` still running)`
+      : ""
+    return `busy but no progress for ${Math.round(quiet)}m${running}`
+  }
+  return null
+}
+
+export class StallDetector extends AgentMonitor {
+  private diagnoses = new Map<string, string>()
+
+  constructor(
+    registry: AgentRegistry,
+    private emitter: LifecycleEmitter,
+    private config: LbConfig["stall"],
+  ) {
+    super(registry)
+  }
+
+  /**
+   * Current stall diagnosis for an agent, or undefined.
+   */
+  diagnosis(issueId: string): string | undefined {
+    return this.diagnoses.get(issueId)
+  }
+
+  /**
+   * Diagnose every agent once, emitting agent:stalled for new diagnoses.
+   */
+  protected async checkAgents(): Promise<void> {
+    for (const [issueId, agent] of [...this.registry.entries()]) {
+      if (agent.parkedAt) continue
+      const messages = await fetchMessages(agent.port, agent.sessionId)
+      if (!messages) continue
+
+      const diagnosis = diagnoseStall(messages, this.config)
+      if (!diagnosis) {
+        this.diagnoses.delete(issueId)
+        continue
+      }
+      if (this.diagnoses.get(issueId) === diagnosis) continue
+      // "No progress for Nm" changes every tick — only the first one is news
+      const previous = this.diagnoses.get(issueId)
+      this.diagnoses.set(issueId, diagnosis)
+      if (previous?.startsWith("busy but no progress") && diagnosis.startsWith("busy but no progress")) continue
+
+      await this.emitter.emit("agent:stalled", {
+        issueId,
+        branch: agent.branch,
+        port: agent.port,
+        reason: diagnosis,
+      })
+    }
+  }
+
+  protected tracked(): Iterable<string> {
+    return this.diagnoses.keys()
+  }
+
+  protected forget(issueId: string): void {
+    this.diagnoses.delete(issueId)
+  }
+}
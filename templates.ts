@@ -0,0 +1,103 @@
+/**
+ * Prompt templates for dispatched agents.
+ *
+ * Projects can keep markdown templates in .lb/templates/<name>.md. The template
+ * is chosen by the explicit `template` argument, else the first issue label
+ * with a matching file (e.g. label "bug" → bug.md), else default.md, else the
+ * built-in template below.
+ *
+ * Placeholders: {{issueId}} {{title}} {{description}} {{branch}}
+ * {{baseBranch}} {{acceptanceCriteria}} {{context}} {{prompt}}. Unknown placeholders are
+ * left as-is so typos stay visible in the rendered prompt.
+ */
+
+export const BUILTIN_TEMPLATE = `## Issue: {{issueId}} — {{title}}
+
+{{description}}
+
+{{context}}
+
+---
+
+{{prompt}}
+
+---
+
+When the work is done: commit, push branch \`{{branch}}\`, open a PR against \`{{baseBranch}}\` with \`gh pr create\`, then run \`lb update {{issueId}} --status in_review\` and \`lb sync\`.`
+
+export interface TemplateVars {
+  issueId: string
+  title: string
+  description: string
+  branch: string
+  baseBranch: string
+  acceptanceCriteria: string
+  /** Related issues: parent, siblings, blockers, discovered-from, comments */
+  context: string
+  prompt: string
+}
+
+/**
+ * Pick the template for an issue. Returns the template name ("builtin" when
+ * no project template applies) and its source.
+ * Throws if an explicitly requested template does not exist.
+ */
+export async function chooseTemplate(
+  directory: string,
+  labels: string[],
+  explicit?: string,
+): Promise<{ name: string; source: string }> {
+  if (explicit) {
+    const source = await readTemplate(directory, explicit)
+    if (source === null) {
+      throw new Error(`Template not found: .lb/templates/${explicit}.md`)
+    }
+    return { name: explicit, source }
+  }
+
+  for (const name of [...labels.map((l) => l.toLowerCase()), "default"]) {
+    const source = await readTemplate(directory, name)
+    if (source !== null) return { name, source }
+  }
+  return { name: "builtin", source: BUILTIN_TEMPLATE }
+}
+
+export function renderTemplate(source: string, vars: TemplateVars): string {
+  return source
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+      key in vars ? vars[key as keyof TemplateVars] : match,
+    )
+    // Empty placeholders shouldn't leave gaps
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+/**
+ * Label names from lb show --json (plain strings or { name } objects).
+ */
+export function issueLabels(issue: any): string[] {
+  const labels = issue?.labels ?? []
+  if (!Array.isArray(labels)) return []
+  return labels
+    .map((l: any) => (typeof l === "string" ? l : l?.name))
+    .filter((l: unknown): l is string => typeof l === "string" && l.length > 0)
+}
+
+/**
+ * Acceptance criteria from an explicit field, or the "Acceptance criteria"
+ * section of the description (up to the next heading).
+ */
+export function extractAcceptanceCriteria(issue: any, description: string): string {
+  if (typeof issue?.acceptance_criteria === "string") return issue.acceptance_criteria.trim()
+  const match = description.match(
+    /^#{1,6}\s*acceptance criteria\s*:?\s*$([\s\S]*?)(?=^#{1,6}\s|(?![\s\S]))/im,
+  )
+  return match ? match[1].trim() : ""
+}
+
+async function readTemplate(directory: string, name: string): Promise<string | null> {
+  // Names come from labels and tool args — keep them inside .lb/templates
+  if (!/^[\w.-]+$/.test(name)) return null
+  const file = Bun.file(`${directory}/.lb/templates/${name}.md`)
+  return (await file.exists()) ? await file.text() : null
+}
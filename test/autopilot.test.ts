@@ -0,0 +1,110 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test"
+import { tmpdir } from "os"
+import { Autopilot } from "../autopilot"
+import { DispatchQueue, type DispatchArgs } from "../queue"
+import { AgentRegistry } from "../registry"
+import { FakeLb, shellIn } from "./harness"
+
+const lb = new FakeLb()
+afterAll(() => lb.remove())
+
+let dispatched: DispatchArgs[]
+let autopilot: Autopilot
+
+function setup(labels: string[] = [], maxConcurrent = 5) {
+  const registry = new AgentRegistry()
+  const queue = new DispatchQueue(registry, maxConcurrent, async (args) => {
+    dispatched.push(args)
+    registry.set(args.issueId, {
+      issueId: args.issueId,
+      port: 47700,
+      sessionId: "ses_1",
+      tmuxSession: args.issueId.replace(/-/g, "_"),
+      branch: args.issueId,
+      worktreePath: `/tmp/${args.issueId}`,
+      dispatchedAt: "2026-01-01T00:00:00.000Z",
+      model: "claude-sonnet-4-6",
+      provider: "anthropic",
+    })
+    return JSON.stringify({ status: "dispatched", issueId: args.issueId })
+  })
+  autopilot = new Autopilot(shellIn(tmpdir()), registry, queue, { enabled: true, labels, prompt: "Implement this issue." })
+}
+
+beforeEach(() => {
+  lb.reset()
+  dispatched = []
+  setup()
+})
+
+/** The trigger finished: it leaves lb ready and the issues it blocked enter it */
+function finish(trigger: string, ...nowReady: string[]) {
+  lb.setIssue({ identifier: trigger, status: "done" })
+  lb.update({ ready: nowReady })
+}
+
+describe("Autopilot", () => {
+  test("dispatches newly ready issues the trigger was blocking", async () => {
+    lb.setIssue({ identifier: "AP-1", status: "in_progress" })
+    lb.setIssue({ identifier: "AP-2", blocked_by: [{ identifier: "AP-1" }] })
+    lb.update({ ready: [] })
+    await autopilot.prime()
+
+    finish("AP-1", "AP-2")
+    const result = await autopilot.run("AP-1")
+
+    expect(result).toEqual({ trigger: "AP-1", started: ["AP-2"], queued: [] })
+    expect(dispatched).toEqual([{ issueId: "AP-2", prompt: "Implement this issue." }])
+  })
+
+  test("leaves alone newly ready issues the trigger never blocked", async () => {
+    lb.setIssue({ identifier: "AP-3", status: "in_progress" })
+    lb.setIssue({ identifier: "AP-4", blocked_by: ["AP-9"] })
+    lb.update({ ready: [] })
+    await autopilot.prime()
+
+    // AP-5 was just created, AP-4 was unblocked by something else
+    lb.setIssue({ identifier: "AP-5" })
+    finish("AP-3", "AP-4", "AP-5")
+    const result = await autopilot.run("AP-3")
+
+    expect(result.started).toEqual([])
+    expect(dispatched).toEqual([])
+  })
+
+  test("skips issues ready before the trigger finished", async () => {
+    lb.setIssue({ identifier: "AP-6", status: "in_progress" })
+    lb.setIssue({ identifier: "AP-7", blocked_by: "AP-6" })
+    lb.update({ ready: ["AP-7"] })
+    await autopilot.prime()
+
+    finish("AP-6", "AP-7")
+    expect((await autopilot.run("AP-6")).started).toEqual([])
+  })
+
+  test("does not dispatch when lb show fails for the candidate", async () => {
+    lb.setIssue({ identifier: "AP-8", status: "in_progress" })
+    lb.setIssue({ identifier: "AP-10", blocked_by: ["AP-8"] })
+    lb.update({ ready: [] })
+    await autopilot.prime()
+
+    finish("AP-8", "AP-10")
+    lb.fail("show AP-10", "lb: database locked\n")
+    expect((await autopilot.run("AP-8")).started).toEqual([])
+  })
+
+  test("applies the label allowlist and queues past the concurrency limit", async () => {
+    setup(["auto"], 1)
+    lb.setIssue({ identifier: "AP-11", status: "in_progress" })
+    for (const id of ["AP-12", "AP-13"]) lb.setIssue({ identifier: id, blocked_by: ["AP-11"], labels: ["Auto"] })
+    lb.setIssue({ identifier: "AP-14", blocked_by: ["AP-11"], labels: ["manual"] })
+    lb.update({ ready: [] })
+    await autopilot.prime()
+
+    finish("AP-11", "AP-12", "AP-13", "AP-14")
+    const result = await autopilot.run("AP-11")
+
+    expect(result.started).toEqual(["AP-12"])
+    expect(result.queued).toEqual([{ issueId: "AP-13", position: 1 }])
+  })
+})
@@ -0,0 +1,92 @@
+import { afterAll, afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { LifecycleEmitter } from "../lifecycle"
+import { AgentRegistry, type AgentEntry } from "../registry"
+import { CleanupPolicy } from "../cleanup"
+import { DEFAULT_CONFIG } from "../config"
+import { FakeLb, StubBackend, createRepo, shellIn, type TempRepo } from "./harness"
+
+const lb = new FakeLb()
+afterAll(() => lb.remove())
+let repo: TempRepo
+let backend: StubBackend
+let registry: AgentRegistry
+let emitter: LifecycleEmitter
+let policy: CleanupPolicy
+
+beforeEach(() => {
+  repo = createRepo()
+  lb.reset(repo.repo)
+  backend = new StubBackend()
+  registry = new AgentRegistry()
+  emitter = new LifecycleEmitter()
+  policy = new CleanupPolicy(
+    shellIn(repo.repo),
+    backend,
+    registry,
+    emitter,
+    { ...DEFAULT_CONFIG.cleanup, enabled: true, idleMinutes: 0, graceMinutes: 0, status: "todo_refined" },
+    DEFAULT_CONFIG.ports,
+    { directory: repo.repo, transcript: false },
+  )
+})
+
+afterEach(() => repo.remove())
+
+function register(issueId: string, fields: Partial<AgentEntry>) {
+  lb.setIssue({ identifier: issueId, status: "in_progress" })
+  registry.set(issueId, {
+    issueId,
+    port: 47800,
+    sessionId: "ses_1",
+    tmuxSession: issueId.replace(/-/g, "_"),
+    branch: issueId,
+    worktreePath: "",
+    dispatchedAt: "2026-01-01T00:00:00.000Z",
+    model: "claude-sonnet-4-6",
+    provider: "anthropic",
+    ...fields,
+  })
+}
+
+describe("CleanupPolicy", () => {
+  test("parks, then cleans up a finished read-only agent to the configured status", async () => {
+    register("CLN-1", { branch: "(no worktree)", worktreePath: repo.repo })
+    await emitter.emit("agent:finished", { issueId: "CLN-1" })
+
+    expect(await policy.evaluate()).toEqual(["CLN-1: parked"])
+    expect(await policy.evaluate()).toEqual(["CLN-1: cleaned up (todo_refined)"])
+    expect(registry.has("CLN-1")).toBe(false)
+    expect(lb.issue("CLN-1").status).toBe("todo_refined")
+    expect(emitter.history("CLN-1").map((r) => r.event)).toEqual(["agent:finished", "agent:parked", "agent:cleaned"])
+  })
+
+  test("forgets when a cleaned up agent finished", async () => {
+    register("CLN-2", { branch: "(no worktree)", worktreePath: repo.repo })
+    await emitter.emit("agent:finished", { issueId: "CLN-2" })
+    await policy.evaluate()
+    await policy.evaluate()
+
+    // Dispatched again: not finished yet, so not parked
+    register("CLN-2", { branch: "(no worktree)", worktreePath: repo.repo })
+    expect(await policy.evaluate()).toEqual([])
+  })
+
+  test("never cleans up an agent whose worktree is unknown", async () => {
+    register("CLN-3", { worktreePath: "" })
+    await emitter.emit("agent:finished", { issueId: "CLN-3" })
+    expect(await policy.evaluate()).toEqual([])
+
+    registry.set("CLN-3", { ...registry.get("CLN-3")!, parkedAt: "2026-01-01T00:00:00.000Z" })
+    expect(await policy.evaluate()).toEqual(["CLN-3: cleanup skipped — worktree unknown"])
+    expect(registry.has("CLN-3")).toBe(true)
+    expect(lb.callsTo("worktree delete")).toEqual([])
+  })
+
+  test("requires an open PR for agents with a worktree", async () => {
+    const wt = repo.addWorktree("CLN-4", "CLN-4")
+    register("CLN-4", { worktreePath: wt, baseBranch: "main" })
+    registry.set("CLN-4", { ...registry.get("CLN-4")!, parkedAt: "2026-01-01T00:00:00.000Z" })
+
+    expect(await policy.evaluate()).toEqual(["CLN-4: cleanup skipped — no open PR"])
+  })
+})
@@ -0,0 +1,61 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test"
+import { tmpdir } from "os"
+import { AgentRegistry } from "../registry"
+import { getLbContext } from "../context"
+import { FakeLb, shellIn } from "./harness"
+
+const lb = new FakeLb()
+afterAll(() => lb.remove())
+const $ = shellIn(tmpdir())
+
+beforeEach(() => lb.reset())
+
+describe("getLbContext", () => {
+  test("lists ready and in-progress issues and running agents", async () => {
+    lb.setIssue({ identifier: "CTX-1", status: "todo_refined" })
+    lb.setIssue({ identifier: "CTX-2", status: "in_progress" })
+    const registry = new AgentRegistry()
+    registry.set("CTX-2", {
+      issueId: "CTX-2",
+      port: 47400,
+      sessionId: "ses_1",
+      tmuxSession: "CTX_2",
+      branch: "CTX-2",
+      worktreePath: "/tmp/CTX-2",
+      dispatchedAt: "2026-01-01T00:00:00.000Z",
+      model: "claude-sonnet-4-6",
+      provider: "anthropic",
+    })
+
+    const context = (await getLbContext($, registry))!
+    expect(context).toStartWith("<lb-context>")
+    expect(context).toContain("## Ready Issues (1)")
+    expect(context).toContain(`"identifier":"CTX-1"`)
+    expect(context).toContain("## In Progress (1)")
+    expect(context).toContain("- CTX-2: port=47400, tmux=CTX_2, branch=CTX-2")
+    expect(context).not.toContain("WARNING")
+    expect(lb.callsTo("list")[0]).toEqual(["list", "--status", "in_progress", "--json", "--no-sync"])
+  })
+
+  test("warns when issues are ready but nothing is in progress", async () => {
+    lb.setIssue({ identifier: "CTX-3", status: "todo_refined" })
+    const context = (await getLbContext($, new AgentRegistry()))!
+    expect(context).toContain("You have 1 ready issue(s) but nothing in progress")
+  })
+
+  test("suggests lb sync when there is no work at all", async () => {
+    const context = (await getLbContext($, new AgentRegistry()))!
+    expect(context).toContain("## Ready Issues\nNone")
+    expect(context).toContain("No ready issues and nothing in progress")
+  })
+
+  test("reports a failing lb ready instead of treating it as no ready issues", async () => {
+    lb.fail("ready", "lb: not initialised\n")
+    lb.fail("list", "lb: not initialised\n")
+    const context = (await getLbContext($, new AgentRegistry()))!
+    expect(context).toContain("(lb ready failed — run lb sync)")
+    expect(context).not.toContain("## Ready Issues\nNone")
+    expect(context).not.toContain("## In Progress")
+    expect(context).toEndWith("</lb-context>")
+  })
+})
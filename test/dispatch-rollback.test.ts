@@ -0,0 +1,177 @@
+import { afterAll, afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { existsSync, rmSync } from "fs"
+import { LifecycleEmitter, type LifecycleEventType } from "../lifecycle"
+import { AgentRegistry } from "../registry"
+import { dispatch } from "../orchestrator"
+import { FakeLb, StubBackend, createRepo, shellIn, type StubBackendOptions, type TempRepo } from "./harness"
+
+const lb = new FakeLb()
+afterAll(() => lb.remove())
+let repo: TempRepo
+let backend: StubBackend
+let issueId: string
+let n = 0
+
+beforeEach(() => {
+  repo = createRepo()
+  lb.reset(repo.repo)
+  issueId = `RB-${++n}`
+  lb.setIssue({ identifier: issueId, status: "todo_refined", description: "Original description" })
+})
+
+afterEach(async () => {
+  await backend?.stopAll()
+  rmSync(logFile(), { force: true })
+  repo.remove()
+})
+
+const logFile = () => `/tmp/opencode-${issueId}.log`
+
+async function dispatchWith(backendOptions: StubBackendOptions = {}) {
+  backend = new StubBackend(backendOptions)
+  const registry = new AgentRegistry()
+  const emitter = new LifecycleEmitter()
+  const events: LifecycleEventType[] = []
+  for (const event of ["agent:claimed", "agent:running", "agent:errored"] as const) {
+    emitter.on(event, () => {
+      events.push(event)
+    })
+  }
+  const result = JSON.parse(
+    await dispatch(shellIn(repo.repo), backend, registry, emitter, { issueId, prompt: "Go" }, {
+      ports: { min: 47200, max: 47299 },
+      directory: repo.repo,
+      contextBudget: 0,
+    }),
+  )
+  return { registry, events, result }
+}
+
+const BEFORE_CLAIM = ["fetch issue", "resolve base branch", "render prompt"]
+const THROUGH_WORKTREE = [...BEFORE_CLAIM, "claim issue", "create worktree", "resolve worktree path"]
+const THROUGH_SERVER = [...THROUGH_WORKTREE, "launch opencode serve", "wait for server"]
+
+const undone = (...steps: string[]) => steps.map((step) => ({ step, ok: true }))
+
+/** Nothing of the dispatch is left: issue status, worktree, process, log, registry */
+function expectNothingLeft(registry: AgentRegistry) {
+  expect(lb.issue(issueId).status).toBe("todo_refined")
+  expect(lb.issue(issueId).description).toBe("Original description")
+  expect(existsSync(`${repo.root}/${issueId}`)).toBe(false)
+  expect(backend.processes.size).toBe(0)
+  expect(existsSync(logFile())).toBe(false)
+  expect(registry.size()).toBe(0)
+}
+
+describe("dispatch rollback", () => {
+  test("lb update failing to claim the issue leaves nothing to undo", async () => {
+    lb.fail(`update ${issueId} --status in_progress`, "lb: Linear API unavailable\n")
+    const { registry, events, result } = await dispatchWith()
+
+    expect(result).toMatchObject({ status: "error", failedStep: "claim issue", completedSteps: BEFORE_CLAIM })
+    expect(result.rolledBack).toEqual([])
+    expect(lb.callsTo("worktree")).toEqual([])
+    expectNothingLeft(registry)
+    expect(events).toEqual(["agent:errored"])
+  })
+
+  test("lb worktree create failing restores the prior status", async () => {
+    lb.fail("worktree create", "fatal: a branch named 'RB' already exists\n")
+    const { registry, result } = await dispatchWith()
+
+    expect(result).toMatchObject({
+      failedStep: "create worktree",
+      completedSteps: [...BEFORE_CLAIM, "claim issue"],
+    })
+    expect(result.rolledBack).toEqual(undone("claim issue"))
+    expect(lb.callsTo(`update ${issueId} --status`).at(-1)).toEqual(["update", issueId, "--status", "todo_refined"])
+    expectNothingLeft(registry)
+  })
+
+  test("backend.start failing deletes the worktree", async () => {
+    const { registry, result } = await dispatchWith({ failStart: true })
+
+    expect(result).toMatchObject({ failedStep: "launch opencode serve", completedSteps: THROUGH_WORKTREE })
+    expect(result.error).toContain("injected failure")
+    expect(result.rolledBack).toEqual(undone("create worktree", "claim issue"))
+    expect(lb.callsTo("worktree delete")).toEqual([["worktree", "delete", issueId, "--force"]])
+    expectNothingLeft(registry)
+  })
+
+  test(
+    "waitForServer timing out stops the process and removes its log",
+    async () => {
+      const { registry, result } = await dispatchWith({ noListen: true })
+
+      expect(result).toMatchObject({
+        failedStep: "wait for server",
+        completedSteps: [...THROUGH_WORKTREE, "launch opencode serve"],
+      })
+      // The error carries the server log tail
+      expect(result.error).toContain("did not answer")
+      expect(result.error).toContain("opencode serve starting")
+      expect(result.rolledBack).toEqual(undone("launch opencode serve", "create worktree", "claim issue"))
+      expectNothingLeft(registry)
+    },
+    40_000,
+  )
+
+  test("POST /session failing stops the server", async () => {
+    const { registry, result } = await dispatchWith({ fail: { "POST /session": 500 } })
+
+    expect(result).toMatchObject({
+      failedStep: "create session",
+      error: "POST /session returned HTTP 500",
+      completedSteps: THROUGH_SERVER,
+    })
+    expect(result.rolledBack).toEqual(undone("launch opencode serve", "create worktree", "claim issue"))
+    expectNothingLeft(registry)
+  })
+
+  test("prompt_async failing stops the server", async () => {
+    const { registry, result } = await dispatchWith({ fail: { "POST /session/:id/prompt_async": 503 } })
+
+    expect(result).toMatchObject({
+      failedStep: "send prompt",
+      error: "POST /prompt_async returned HTTP 503",
+      completedSteps: [...THROUGH_SERVER, "create session"],
+    })
+    expect(result.rolledBack).toEqual(undone("launch opencode serve", "create worktree", "claim issue"))
+    expectNothingLeft(registry)
+  })
+
+  test("the metadata write failing undoes everything before it", async () => {
+    lb.fail(`update ${issueId} -d`, "lb: description too long\n")
+    const { registry, events, result } = await dispatchWith()
+
+    expect(result).toMatchObject({
+      failedStep: "record metadata",
+      completedSteps: [...THROUGH_SERVER, "create session", "send prompt"],
+    })
+    expect(result.rolledBack).toEqual(undone("launch opencode serve", "create worktree", "claim issue"))
+    expectNothingLeft(registry)
+    expect(events).toEqual(["agent:claimed", "agent:errored"])
+  })
+
+  test("a failing undo is reported and the remaining steps still run", async () => {
+    lb.fail("worktree delete", "fatal: worktree is locked\n")
+    const { result } = await dispatchWith({ failStart: true })
+
+    expect(result.rolledBack).toEqual([
+      { step: "create worktree", ok: false, error: expect.stringContaining("exit code 1") },
+      { step: "claim issue", ok: true },
+    ])
+    expect(lb.issue(issueId).status).toBe("todo_refined")
+  })
+
+  test("the claim is left in place when the prior status is unknown", async () => {
+    lb.fail(`show ${issueId}`)
+    lb.fail("worktree create")
+    const { result } = await dispatchWith()
+
+    expect(result.failedStep).toBe("create worktree")
+    expect(result.rolledBack).toEqual([
+      { step: "claim issue", ok: false, error: "prior status unknown — left in_progress" },
+    ])
+  })
+})
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { tmpdir } from "os"
+import { AgentEventStreams } from "../events"
+import { LifecycleEmitter } from "../lifecycle"
+import { AgentRegistry } from "../registry"
+import { CompletionVerifier } from "../verify"
+import { OpencodeStub, shellIn } from "./harness"
+
+let stub: OpencodeStub
+let streams: AgentEventStreams
+
+afterEach(() => {
+  streams?.close()
+  stub?.stop()
+})
+
+/** Subscribe to one read-only agent served by a stub in the given status */
+function subscribe(status: string) {
+  stub = new OpencodeStub(0, { status })
+  const registry = new AgentRegistry()
+  registry.set("EVT-1", {
+    issueId: "EVT-1",
+    port: stub.port,
+    sessionId: "ses_1",
+    tmuxSession: "EVT_1",
+    branch: "(no worktree)",
+    worktreePath: tmpdir(),
+    dispatchedAt: "2026-01-01T00:00:00.000Z",
+    model: "claude-sonnet-4-6",
+    provider: "anthropic",
+  })
+  const emitter = new LifecycleEmitter()
+  streams = new AgentEventStreams(registry, emitter, new CompletionVerifier(shellIn(tmpdir()), registry, emitter))
+  streams.sync()
+  return emitter
+}
+
+async function until(condition: () => boolean, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("timed out waiting for condition")
+    await Bun.sleep(20)
+  }
+}
+
+describe("AgentEventStreams", () => {
+  test("an agent that is already idle when the stream connects is settled", async () => {
+    const emitter = subscribe("idle")
+    await until(() => emitter.history("EVT-1").length > 0)
+
+    expect(streams.isLive("EVT-1")).toBe(true)
+    expect(streams.status("EVT-1")).toBe("finished")
+    expect(emitter.history("EVT-1").map((r) => r.event)).toEqual(["agent:finished"])
+    expect(stub.requestsTo("GET /session/:id/status")).toHaveLength(1)
+  })
+
+  test("a busy agent is left to its events", async () => {
+    const emitter = subscribe("busy")
+    await until(() => stub.requestsTo("GET /session/:id/status").length > 0 && streams.isLive("EVT-1"))
+    await Bun.sleep(100)
+
+    expect(streams.status("EVT-1")).toBeNull()
+    expect(emitter.history("EVT-1")).toEqual([])
+  })
+})
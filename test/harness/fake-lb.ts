@@ -0,0 +1,108 @@
+/**
+ * Fake `lb` executable. Reads its fixtures from the JSON state file named by
+ * FAKE_LB_STATE, appends every invocation (argv) to the state's log file and
+ * writes mutations (status, description, comments) back to the state.
+ *
+ * Failures are injected with `failures`: the first entry whose `match` is a
+ * prefix of the space-joined arguments makes the call exit non-zero.
+ */
+
+import { appendFileSync, readFileSync, writeFileSync } from "fs"
+import { dirname } from "path"
+import type { FakeLbState } from "./lb"
+
+const statePath = process.env.FAKE_LB_STATE
+if (!statePath) {
+  process.stderr.write("fake lb: FAKE_LB_STATE not set\n")
+  process.exit(2)
+}
+
+const state = JSON.parse(readFileSync(statePath, "utf8")) as FakeLbState
+const args = process.argv.slice(2)
+appendFileSync(state.log, JSON.stringify(args) + "\n")
+
+const failure = state.failures.find((f) => args.join(" ").startsWith(f.match))
+if (failure) {
+  process.stderr.write(failure.stderr ?? `fake lb: injected failure for "${failure.match}"\n`)
+  process.exit(failure.exitCode ?? 1)
+}
+
+const save = () => writeFileSync(statePath, JSON.stringify(state, null, 2))
+const flag = (name: string) => {
+  const i = args.indexOf(name)
+  return i === -1 ? undefined : args[i + 1]
+}
+const notFound = (id: string) => {
+  process.stderr.write(`Issue not found: ${id}\n`)
+  process.exit(1)
+}
+const git = (repo: string, ...gitArgs: string[]) => {
+  const result = Bun.spawnSync(["git", "-C", repo, ...gitArgs], { stderr: "pipe" })
+  if (result.exitCode !== 0) {
+    process.stderr.write(result.stderr.toString())
+    process.exit(result.exitCode ?? 1)
+  }
+}
+
+switch (args[0]) {
+  case "show": {
+    const issue = state.issues[args[1]]
+    if (!issue) notFound(args[1])
+    process.stdout.write(
+      args.includes("--json") ? JSON.stringify(issue) : `${issue.title ?? ""}\n\n${issue.description ?? ""}\n`,
+    )
+    break
+  }
+  case "update": {
+    const issue = state.issues[args[1]]
+    if (!issue) notFound(args[1])
+    const status = flag("--status")
+    const description = flag("-d")
+    if (status !== undefined) issue.status = status
+    if (description !== undefined) issue.description = description
+    save()
+    break
+  }
+  case "list": {
+    const status = flag("--status")
+    const issues = Object.values(state.issues).filter((i: any) => !status || i.status === status)
+    process.stdout.write(JSON.stringify(issues))
+    break
+  }
+  case "ready": {
+    const ready = state.ready
+      ? state.ready.map((id) => state.issues[id]).filter(Boolean)
+      : Object.values(state.issues).filter((i: any) => i.status === "todo_refined")
+    process.stdout.write(JSON.stringify(ready))
+    break
+  }
+  case "comment": {
+    const issue = state.issues[args[1]]
+    if (!issue) notFound(args[1])
+    issue.comments = [...(issue.comments ?? []), { body: args[2] }]
+    save()
+    break
+  }
+  case "dep": {
+    if (args[1] === "tree") process.stdout.write(state.depTrees?.[args[2]] ?? "")
+    break
+  }
+  case "worktree": {
+    // With a repo configured, worktrees are real siblings of it (like lb's)
+    const branch = args[2]
+    if (!state.repo) break
+    const path = `${dirname(state.repo)}/${branch}`
+    if (args[1] === "create") {
+      const base = flag("--base")
+      git(state.repo, "worktree", "add", "-q", "-b", branch, path, ...(base ? [base] : []))
+      process.stdout.write(`${path}\n`)
+    } else if (args[1] === "delete") {
+      git(state.repo, "worktree", "remove", "--force", path)
+      git(state.repo, "branch", "-D", branch)
+    }
+    break
+  }
+  default:
+    // sync, init, … succeed silently
+    break
+}
@@ -0,0 +1,3 @@
+export * from "./lb"
+export * from "./opencode"
+export * from "./repo"
@@ -0,0 +1,104 @@
+/**
+ * Puts the fake `lb` (fake-lb.ts) on PATH and scripts it from tests.
+ */
+
+import { chmodSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+
+export interface FakeLbFailure {
+  /** Prefix of the space-joined arguments, e.g. "worktree create" */
+  match: string
+  exitCode?: number
+  stderr?: string
+}
+
+export interface FakeLbState {
+  /** Issues keyed by identifier */
+  issues: Record<string, any>
+  /** IDs returned by `lb ready` (default: every todo_refined issue) */
+  ready?: string[]
+  /** `lb dep tree <ID>` output */
+  depTrees?: Record<string, string>
+  failures: FakeLbFailure[]
+  /** Main repo: `lb worktree create/delete` manage real git worktrees next to it */
+  repo?: string
+  /** Calls are appended here, one JSON argv per line */
+  log: string
+}
+
+export class FakeLb {
+  readonly dir: string
+  private statePath: string
+
+  constructor() {
+    this.dir = mkdtempSync(join(tmpdir(), "fake-lb-"))
+    const bin = join(this.dir, "bin")
+    mkdirSync(bin)
+    writeFileSync(
+      join(bin, "lb"),
+      `#!/bin/sh\nexec bun ${JSON.stringify(join(import.meta.dir, "fake-lb.ts"))} "$@"\n`,
+    )
+    chmodSync(join(bin, "lb"), 0o755)
+
+    this.statePath = join(this.dir, "state.json")
+    this.write({ issues: {}, failures: [], log: join(this.dir, "calls.jsonl") })
+    writeFileSync(this.read().log, "")
+
+    process.env.FAKE_LB_STATE = this.statePath
+    if (!process.env.PATH?.startsWith(`${bin}:`)) process.env.PATH = `${bin}:${process.env.PATH}`
+  }
+
+  /** Start over: no issues, failures or calls; worktrees go next to `repo` */
+  reset(repo?: string): void {
+    const log = this.read().log
+    this.write({ issues: {}, failures: [], log, ...(repo ? { repo } : {}) })
+    writeFileSync(log, "")
+    process.env.FAKE_LB_STATE = this.statePath
+  }
+
+  remove(): void {
+    rmSync(this.dir, { recursive: true, force: true })
+  }
+
+  read(): FakeLbState {
+    return JSON.parse(readFileSync(this.statePath, "utf8"))
+  }
+
+  write(state: FakeLbState): void {
+    writeFileSync(this.statePath, JSON.stringify(state, null, 2))
+  }
+
+  update(patch: Partial<FakeLbState>): void {
+    this.write({ ...this.read(), ...patch })
+  }
+
+  setIssue(issue: { identifier: string; [key: string]: any }): void {
+    const state = this.read()
+    state.issues[issue.identifier] = { status: "todo_refined", title: issue.identifier, description: "", ...issue }
+    this.write(state)
+  }
+
+  issue(id: string): any {
+    return this.read().issues[id]
+  }
+
+  fail(match: string, stderr?: string): void {
+    const state = this.read()
+    state.failures.push({ match, stderr })
+    this.write(state)
+  }
+
+  /** Every invocation so far, as argv arrays */
+  calls(): string[][] {
+    return readFileSync(this.read().log, "utf8")
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line))
+  }
+
+  /** Invocations whose joined arguments start with `prefix` */
+  callsTo(prefix: string): string[][] {
+    return this.calls().filter((argv) => argv.join(" ").startsWith(prefix))
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Stand-in for `opencode serve`: an HTTP stub with the endpoints the plugin
+ * uses, and a process backend that starts one per agent and prints the
+ * "listening on" line to the serve log.
+ */
+
+import { appendFileSync } from "fs"
+import type { Server } from "bun"
+import { MemoryBackend } from "../../backend"
+
+export interface OpencodeStubOptions {
+  /** HTTP status to answer with, keyed by "METHOD /path" (session IDs as ":id") */
+  fail?: Record<string, number>
+  /** Messages returned by GET /session/:id/message */
+  messages?: any[]
+  /** Session status returned by GET /session/:id/status (default idle) */
+  status?: string
+  /** Sessions the server already knows, as opencode persists them per project */
+  sessions?: string[]
+}
+
+export interface RecordedRequest {
+  method: string
+  path: string
+  body: any
+}
+
+export class OpencodeStub {
+  readonly requests: RecordedRequest[] = []
+  readonly sessions: Set<string>
+  fail: Record<string, number>
+  messages: any[]
+  status: string
+  private server: Server<undefined>
+  private nextSession = 1
+
+  constructor(
+    port: number,
+    options: OpencodeStubOptions = {},
+  ) {
+    this.sessions = new Set(options.sessions)
+    this.fail = { ...options.fail }
+    this.messages = options.messages ?? []
+    this.status = options.status ?? "idle"
+    this.server = Bun.serve({
+      hostname: "127.0.0.1",
+      port,
+      fetch: (req) => this.handle(req),
+    })
+  }
+
+  get port(): number {
+    return this.server.port!
+  }
+
+  stop(): void {
+    this.server.stop(true)
+  }
+
+  /** Requests whose route ("METHOD /path" with ":id") matches */
+  requestsTo(route: string): RecordedRequest[] {
+    return this.requests.filter((r) => `${r.method} ${r.path.replace(/ses_\w+/, ":id")}` === route)
+  }
+
+  private async handle(req: Request): Promise<Response> {
+    const url = new URL(req.url)
+    const text = req.method === "GET" ? "" : await req.text()
+    let body: any = text
+    try {
+      body = text ? JSON.parse(text) : null
+    } catch {}
+    this.requests.push({ method: req.method, path: url.pathname, body })
+
+    const route = `${req.method} ${url.pathname.replace(/ses_\w+/, ":id")}`
+    const failure = this.fail[route]
+    if (failure) return new Response("injected failure", { status: failure })
+
+    const id = url.pathname.match(/ses_\w+/)?.[0]
+    switch (route) {
+      case "GET /session":
+        return Response.json([...this.sessions].map((id) => ({ id })))
+      case "POST /session": {
+        const session = `ses_${this.nextSession++}`
+        this.sessions.add(session)
+        return Response.json({ id: session, title: body?.title })
+      }
+      case "GET /session/:id":
+        return id && this.sessions.has(id) ? Response.json({ id }) : new Response("not found", { status: 404 })
+      case "POST /session/:id/prompt_async":
+        return new Response(null, { status: 204 })
+      case "GET /session/:id/message":
+        return Response.json(this.messages)
+      case "POST /session/:id/abort":
+        return Response.json(true)
+      case "GET /session/:id/status":
+        return Response.json({ status: this.status })
+      case "GET /event":
+        // An open stream that never sends an event
+        return new Response(
+          new ReadableStream({ start: (controller) => controller.enqueue(": connected\n\n") }),
+          { headers: { "Content-Type": "text/event-stream" } },
+        )
+      default:
+        return new Response("not found", { status: 404 })
+    }
+  }
+}
+
+export interface StubBackendOptions extends OpencodeStubOptions {
+  /** backend.start throws */
+  failStart?: boolean
+  /** Start the process but never answer HTTP (server hangs on startup) */
+  noListen?: boolean
+}
+
+/**
+ * MemoryBackend whose processes are OpencodeStubs.
+ */
+export class StubBackend extends MemoryBackend {
+  readonly stubs = new Map<string, OpencodeStub>()
+
+  /** Options for the stubs started from now on */
+  constructor(readonly options: StubBackendOptions = {}) {
+    super()
+  }
+
+  async start(name: string, cwd: string, command: string, logFile: string): Promise<void> {
+    if (this.options.failStart) throw new Error(`can't start ${name}: injected failure`)
+    await super.start(name, cwd, command, logFile)
+    appendFileSync(logFile, "opencode serve starting\n")
+    if (this.options.noListen) return
+    const stub = new OpencodeStub(Number(command.match(/--port (\d+)/)?.[1] ?? 0), this.options)
+    this.stubs.set(name, stub)
+    const line = `opencode server listening on http://127.0.0.1:${stub.port}`
+    appendFileSync(logFile, `${line}\n`)
+    this.write(name, line)
+  }
+
+  async stop(name: string): Promise<void> {
+    this.stubs.get(name)?.stop()
+    this.stubs.delete(name)
+    await super.stop(name)
+  }
+
+  /** Simulate a crash: the stub stops answering and the process is dead. */
+  crash(name: string): void {
+    this.stubs.get(name)?.stop()
+    this.stubs.delete(name)
+    super.crash(name)
+  }
+
+  /** Stop every process (test teardown) */
+  async stopAll(): Promise<void> {
+    for (const name of [...this.processes.keys()]) await this.stop(name)
+  }
+
+  stub(name: string): OpencodeStub {
+    const stub = this.stubs.get(name)
+    if (!stub) throw new Error(`no opencode stub for ${name}`)
+    return stub
+  }
+}
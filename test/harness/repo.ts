@@ -0,0 +1,57 @@
+/**
+ * Temporary git repositories and a plugin shell rooted in them.
+ */
+
+import { mkdirSync, mkdtempSync, realpathSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { $ } from "bun"
+import type { PluginInput } from "@opencode-ai/plugin"
+
+type Shell = PluginInput["$"]
+
+export interface TempRepo {
+  /** Parent directory — lb creates worktrees here, next to the repo */
+  root: string
+  /** Main worktree */
+  repo: string
+  /** `git worktree add` a sibling of the repo (new branch, or detached HEAD when branch is null) */
+  addWorktree(name: string, branch: string | null): string
+  remove(): void
+}
+
+/**
+ * A git repo at `<tmp>/repo` on branch main with one commit.
+ */
+export function createRepo(): TempRepo {
+  const root = realpathSync(mkdtempSync(join(tmpdir(), "lb-repo-")))
+  const repo = join(root, "repo")
+  mkdirSync(repo)
+  const git = (...args: string[]) => {
+    const result = Bun.spawnSync(["git", "-C", repo, ...args], { stderr: "pipe" })
+    if (result.exitCode !== 0) throw new Error(`git ${args.join(" ")}: ${result.stderr}`)
+  }
+  git("init", "-q", "-b", "main")
+  git("config", "user.email", "test@example.com")
+  git("config", "user.name", "test")
+  git("commit", "-q", "--allow-empty", "-m", "initial")
+  return {
+    root,
+    repo,
+    addWorktree: (name, branch) => {
+      const path = join(root, name)
+      git("worktree", "add", "-q", ...(branch ? ["-b", branch] : ["--detach"]), path)
+      return path
+    },
+    remove: () => rmSync(root, { recursive: true, force: true }),
+  }
+}
+
+/**
+ * A shell whose commands run in `cwd`, like the plugin's `$` in the project.
+ */
+export function shellIn(cwd: string): Shell {
+  const shell = new $.Shell()
+  shell.cwd(cwd)
+  return shell as unknown as Shell
+}
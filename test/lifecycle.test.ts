@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test"
+import { LifecycleEmitter, lifecycleEmitter, shareEmitter, type LifecycleHandlerError } from "../lifecycle"
+
+describe("LifecycleEmitter", () => {
+  test("runs event and wildcard handlers, once handlers only once", async () => {
+    const emitter = new LifecycleEmitter()
+    const seen: string[] = []
+    emitter.on("agent:finished", ({ issueId }) => void seen.push(`finished ${issueId}`))
+    emitter.once("agent:*", (_payload, event) => void seen.push(`once ${event}`))
+
+    await emitter.emit("agent:finished", { issueId: "LC-1" })
+    await emitter.emit("agent:finished", { issueId: "LC-2" })
+    expect(seen).toEqual(["finished LC-1", "once agent:finished", "finished LC-2"])
+    expect(emitter.history("LC-2")).toEqual([
+      { event: "agent:finished", payload: { issueId: "LC-2", timestamp: expect.any(String) } },
+    ])
+  })
+
+  test("reports failing and slow handlers without blocking emit", async () => {
+    const emitter = new LifecycleEmitter({ handlerTimeoutMs: 50 })
+    const failures: LifecycleHandlerError[] = []
+    emitter.onError((failure) => void failures.push(failure))
+    emitter.on("agent:idle", () => {
+      throw new Error("boom")
+    })
+    emitter.on("agent:idle", () => new Promise(() => {}))
+
+    await emitter.emit("agent:idle", { issueId: "LC-3" })
+    expect(failures.map((f) => [f.timedOut, String(f.error)])).toEqual([
+      [false, "Error: boom"],
+      [true, "Error: Handler did not settle within 50ms"],
+    ])
+  })
+})
+
+describe("shareEmitter", () => {
+  test("forwards events to the shared emitter without waiting for its handlers", async () => {
+    const directory = "/tmp/lc-share-1"
+    const source = new LifecycleEmitter()
+    shareEmitter(directory, source)
+    const seen: string[] = []
+    lifecycleEmitter(directory).on("agent:*", async ({ issueId }, event) => {
+      seen.push(`${event} ${issueId}`)
+      await new Promise(() => {}) // never settles
+    })
+
+    await source.emit("agent:running", { issueId: "LC-4" })
+    expect(seen).toEqual(["agent:running LC-4"])
+  })
+
+  test("a re-initialised source replaces the old one instead of adding to it", async () => {
+    const directory = "/tmp/lc-share-2"
+    const first = new LifecycleEmitter()
+    const second = new LifecycleEmitter()
+    const seen: string[] = []
+    lifecycleEmitter(directory).on("agent:*", ({ issueId }) => void seen.push(issueId))
+
+    shareEmitter(directory, first)
+    shareEmitter(directory, second)
+    await first.emit("agent:running", { issueId: "LC-old" })
+    await second.emit("agent:running", { issueId: "LC-new" })
+    expect(seen).toEqual(["LC-new"])
+  })
+
+  test("disconnecting stops the forwarding", async () => {
+    const directory = "/tmp/lc-share-3"
+    const source = new LifecycleEmitter()
+    const disconnect = shareEmitter(directory, source)
+    disconnect()
+
+    await source.emit("agent:running", { issueId: "LC-5" })
+    expect(lifecycleEmitter(directory).history()).toEqual([])
+  })
+})
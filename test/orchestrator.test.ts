@@ -0,0 +1,343 @@
+import { afterAll, afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { existsSync, rmSync } from "fs"
+import { LifecycleEmitter, type LifecycleEventType } from "../lifecycle"
+import { AgentRegistry } from "../registry"
+import {
+  abortAgent,
+  checkAgent,
+  cleanupAgent,
+  dispatch,
+  followupAgent,
+  listAgents,
+  restartAgent,
+  type DispatchOptions,
+} from "../orchestrator"
+import { FakeLb, StubBackend, createRepo, shellIn, type TempRepo } from "./harness"
+
+const lb = new FakeLb()
+afterAll(() => lb.remove())
+let repo: TempRepo
+let options: DispatchOptions
+const started: { id: string; backend: StubBackend }[] = []
+
+beforeEach(() => {
+  repo = createRepo()
+  lb.reset(repo.repo)
+  options = { ports: { min: 47100, max: 47199 }, directory: repo.repo, contextBudget: 0 }
+})
+
+afterEach(async () => {
+  for (const { id, backend } of started.splice(0)) {
+    await backend.stopAll()
+    rmSync(`/tmp/opencode-${id}.log`, { force: true })
+  }
+  repo.remove()
+})
+
+const EVENTS: LifecycleEventType[] = [
+  "agent:claimed",
+  "agent:running",
+  "agent:finished",
+  "agent:errored",
+  "agent:aborted",
+  "agent:restarted",
+  "agent:closed",
+  "agent:cleaned",
+]
+
+/** Dispatch ORC-<n> with a stub backend; returns everything the test needs */
+async function dispatched(id: string, backend = new StubBackend(), { keepIssue = false } = {}) {
+  if (!keepIssue) lb.setIssue({ identifier: id, title: `Issue ${id}`, description: "Do the thing" })
+  started.push({ id, backend })
+  const $ = shellIn(repo.repo)
+  const registry = new AgentRegistry()
+  const emitter = new LifecycleEmitter()
+  // Every emitted event, in order
+  const events: LifecycleEventType[] = []
+  for (const event of EVENTS) {
+    emitter.on(event, () => {
+      events.push(event)
+    })
+  }
+  const result = JSON.parse(await dispatch($, backend, registry, emitter, { issueId: id, prompt: "Go" }, options))
+  return { $, backend, registry, emitter, events, result }
+}
+
+describe("dispatch", () => {
+  test("claims the issue, creates the worktree and starts a session", async () => {
+    const { backend, registry, events, result } = await dispatched("ORC-1")
+
+    expect(result.status).toBe("dispatched")
+    expect(result.branch).toBe("ORC-1")
+    expect(result.worktreePath).toBe(`${repo.root}/ORC-1`)
+    expect(existsSync(result.worktreePath)).toBe(true)
+    expect(lb.issue("ORC-1").status).toBe("in_progress")
+    expect(lb.issue("ORC-1").description).toContain(`"session":"${result.sessionId}"`)
+    expect(registry.get("ORC-1")?.port).toBe(result.port)
+
+    const stub = backend.stub("ORC_1")
+    const prompt = stub.requestsTo("POST /session/:id/prompt_async")[0].body
+    expect(prompt.parts[0].text).toContain("Do the thing")
+    expect(prompt.model).toEqual({ providerID: "anthropic", modelID: "claude-sonnet-4-6" })
+    expect(events).toEqual(["agent:claimed", "agent:running"])
+  })
+
+  test("creates the worktree from the current branch it records as the base", async () => {
+    await shellIn(repo.repo)`git checkout -q -b develop`.quiet()
+    const { result } = await dispatched("ORC-5")
+
+    expect(lb.callsTo("worktree create")).toEqual([["worktree", "create", "ORC-5", "--base", "develop"]])
+    expect(result.baseBranch).toBe("develop")
+    expect(lb.issue("ORC-5").description).toContain(`"base":"develop"`)
+  })
+
+  test("leaves the base to lb on a detached HEAD", async () => {
+    await shellIn(repo.repo)`git checkout -q --detach`.quiet()
+    const { result } = await dispatched("ORC-6")
+
+    expect(lb.callsTo("worktree create")).toEqual([["worktree", "create", "ORC-6"]])
+    expect(result.status).toBe("dispatched")
+    expect(result.baseBranch).toBeUndefined()
+  })
+
+  test("returns the existing agent when already dispatched", async () => {
+    const { $, backend, registry, emitter } = await dispatched("ORC-2")
+    const again = JSON.parse(await dispatch($, backend, registry, emitter, { issueId: "ORC-2", prompt: "Go" }, options))
+    expect(again.status).toBe("already_dispatched")
+    expect(lb.callsTo("worktree create")).toHaveLength(1)
+  })
+
+  test("leaves the description alone when lb show fails", async () => {
+    lb.setIssue({ identifier: "ORC-4", description: "Hand-written spec" })
+    lb.fail("show ORC-4")
+    const { registry, result } = await dispatched("ORC-4", undefined, { keepIssue: true })
+
+    expect(result.status).toBe("dispatched")
+    expect(result.warnings).toEqual([
+      "metadata not recorded on the issue (lb show failed) — only the state file knows this agent",
+    ])
+    expect(lb.callsTo("update ORC-4 -d")).toEqual([])
+    expect(lb.issue("ORC-4").description).toBe("Hand-written spec")
+    expect(registry.get("ORC-4")?.warnings).toHaveLength(1)
+  })
+
+  test("reports the failed step and rolls back when lb can't create the worktree", async () => {
+    lb.fail("worktree create", "fatal: branch exists\n")
+    const { backend, registry, events, result } = await dispatched("ORC-3")
+
+    expect(result.status).toBe("error")
+    expect(result.failedStep).toBe("create worktree")
+    expect(result.error).toContain("exit code 1")
+    expect(result.rolledBack).toEqual([{ step: "claim issue", ok: true }])
+    expect(lb.issue("ORC-3").status).toBe("todo_refined")
+    expect(registry.size()).toBe(0)
+    expect(backend.processes.size).toBe(0)
+    expect(events.at(-1)).toBe("agent:errored")
+  })
+})
+
+describe("checkAgent", () => {
+  test("reports the recent messages of a working agent", async () => {
+    const { $, backend, registry } = await dispatched("ORC-10")
+    backend.stub("ORC_10").messages = [
+      { info: { role: "user" }, parts: [{ type: "text", text: "Go" }] },
+      { info: { role: "assistant" }, parts: [{ type: "text", text: "On it" }] },
+      { info: { role: "user" }, parts: [{ type: "text", text: "Also this" }] },
+    ]
+
+    const result = JSON.parse(await checkAgent($, backend, registry, "ORC-10", 2))
+    expect(result.status).toBe("running")
+    expect(result.recentMessages).toEqual([
+      { role: "assistant", text: "On it" },
+      { role: "user", text: "Also this" },
+    ])
+  })
+
+  test("falls back to the process output when the server is unreachable", async () => {
+    const { $, backend, registry } = await dispatched("ORC-11")
+    backend.stub("ORC_11").stop()
+
+    const result = JSON.parse(await checkAgent($, backend, registry, "ORC-11"))
+    expect(result.status).toBe("api_unreachable_memory_fallback")
+    expect(result.output).toContain("listening on")
+  })
+
+  test("reports not_found for unknown agents", async () => {
+    const result = JSON.parse(
+      await checkAgent(shellIn(repo.repo), new StubBackend(), new AgentRegistry(), "ORC-404"),
+    )
+    expect(result.status).toBe("not_found")
+  })
+})
+
+describe("followupAgent", () => {
+  test("sends the message and remembers a model override", async () => {
+    const { $, backend, registry } = await dispatched("ORC-20")
+
+    const result = JSON.parse(await followupAgent($, registry, "ORC-20", "Add tests", "gpt-5", "openai"))
+    expect(result.status).toBe("sent")
+    expect(result.model).toBe("openai/gpt-5")
+    expect(registry.get("ORC-20")?.model).toBe("gpt-5")
+    expect(lb.issue("ORC-20").description).toContain(`"model":"gpt-5"`)
+
+    const sent = backend.stub("ORC_20").requestsTo("POST /session/:id/prompt_async").at(-1)!.body
+    expect(sent.parts[0].text).toBe("Add tests")
+  })
+
+  test("reports failed when the server rejects the prompt", async () => {
+    const { $, backend, registry } = await dispatched("ORC-21")
+    backend.stub("ORC_21").fail["POST /session/:id/prompt_async"] = 500
+
+    const result = JSON.parse(await followupAgent($, registry, "ORC-21", "More", "gpt-5", "openai"))
+    expect(result.status).toBe("failed")
+    expect(result.httpStatus).toBe(500)
+    // A rejected override is not remembered
+    expect(registry.get("ORC-21")?.model).toBe("claude-sonnet-4-6")
+  })
+
+  test("reports an error when the server is down", async () => {
+    const { $, backend, registry } = await dispatched("ORC-22")
+    backend.crash("ORC_22")
+    const result = JSON.parse(await followupAgent($, registry, "ORC-22", "Hello"))
+    expect(result.status).toBe("error")
+  })
+})
+
+describe("abortAgent", () => {
+  test("aborts the session and emits agent:aborted", async () => {
+    const { $, backend, registry, emitter, events } = await dispatched("ORC-30")
+    const result = JSON.parse(await abortAgent($, registry, emitter, "ORC-30"))
+    expect(result.status).toBe("aborted")
+    expect(backend.stub("ORC_30").requestsTo("POST /session/:id/abort")).toHaveLength(1)
+    expect(events.at(-1)).toBe("agent:aborted")
+  })
+
+  test("reports an error without emitting when the server is down", async () => {
+    const { $, backend, registry, emitter, events } = await dispatched("ORC-31")
+    backend.crash("ORC_31")
+    const result = JSON.parse(await abortAgent($, registry, emitter, "ORC-31"))
+    expect(result.status).toBe("error")
+    expect(events.at(-1)).toBe("agent:running")
+  })
+})
+
+describe("restartAgent", () => {
+  test("tells a resumed session to continue", async () => {
+    const { $, backend, registry, emitter, events, result } = await dispatched(
+      "ORC-35",
+      new StubBackend({ sessions: ["ses_1"] }),
+    )
+    backend.crash("ORC_35")
+
+    const restarted = JSON.parse(await restartAgent($, backend, registry, emitter, "ORC-35", "process died", options.ports))
+    expect(restarted).toMatchObject({ status: "restarted", sessionId: result.sessionId, resumed: true })
+    const prompts = backend.stub("ORC_35").requestsTo("POST /session/:id/prompt_async")
+    expect(prompts).toHaveLength(1)
+    expect(prompts[0].path).toBe(`/session/${result.sessionId}/prompt_async`)
+    expect(prompts[0].body.parts[0].text).toContain("Continue where you left off")
+    expect(prompts[0].body.model).toEqual({ providerID: "anthropic", modelID: "claude-sonnet-4-6" })
+    expect(events.at(-1)).toBe("agent:restarted")
+  })
+
+  test("reports an error when the server rejects the prompt", async () => {
+    const { $, backend, registry, emitter, events } = await dispatched("ORC-36")
+    backend.options.fail = { "POST /session/:id/prompt_async": 500 }
+    backend.crash("ORC_36")
+
+    const restarted = JSON.parse(await restartAgent($, backend, registry, emitter, "ORC-36", "process died", options.ports))
+    expect(restarted).toMatchObject({ status: "error", error: "POST /prompt_async returned HTTP 500" })
+    expect(events).not.toContain("agent:restarted")
+  })
+})
+
+describe("cleanupAgent", () => {
+  test("stops the server, deletes the worktree and moves the issue to in_review", async () => {
+    const { $, backend, registry, emitter, events, result } = await dispatched("ORC-40")
+
+    const cleaned = JSON.parse(
+      await cleanupAgent($, backend, registry, emitter, "ORC-40", undefined, undefined, {
+        directory: repo.repo,
+        transcript: false,
+      }),
+    )
+    expect(cleaned.status).toBe("cleaned_up")
+    expect(cleaned.actions).toContain("memory stopped")
+    expect(cleaned.actions).toContain("worktree deleted")
+    expect(existsSync(result.worktreePath)).toBe(false)
+    expect(backend.processes.size).toBe(0)
+    expect(registry.has("ORC-40")).toBe(false)
+    expect(lb.issue("ORC-40").status).toBe("in_review")
+    expect(lb.issue("ORC-40").description).toBe("Do the thing")
+    expect(events.slice(-2)).toEqual(["agent:finished", "agent:cleaned"])
+  })
+
+  test("keeps going when lb fails and reports each failed action", async () => {
+    const { $, backend, registry, emitter, events } = await dispatched("ORC-41")
+    backend.crash("ORC_41")
+    lb.fail("worktree delete", "worktree locked\n")
+    lb.fail("update ORC-41 --status", "lb offline\n")
+
+    const cleaned = JSON.parse(
+      await cleanupAgent($, backend, registry, emitter, "ORC-41", "done", undefined, {
+        directory: repo.repo,
+        transcript: false,
+      }),
+    )
+    expect(cleaned.actions).toContain("memory already gone")
+    expect(cleaned.actions.some((a: string) => a.startsWith("worktree delete failed"))).toBe(true)
+    expect(cleaned.actions.some((a: string) => a.startsWith("status update failed"))).toBe(true)
+    expect(registry.has("ORC-41")).toBe(false)
+    expect(events.slice(-2)).toEqual(["agent:closed", "agent:cleaned"])
+  })
+
+  test("announces a cleanup back to todo_refined with agent:cleaned only", async () => {
+    const { $, backend, registry, emitter, events } = await dispatched("ORC-43")
+
+    await cleanupAgent($, backend, registry, emitter, "ORC-43", "todo_refined", true, {
+      directory: repo.repo,
+      transcript: false,
+    })
+    const [last] = emitter.history("ORC-43", 1)
+    expect(events).toEqual(["agent:claimed", "agent:running", "agent:cleaned"])
+    expect(last.payload).toMatchObject({ issueId: "ORC-43", branch: "ORC-43", reason: "status todo_refined" })
+    expect(lb.issue("ORC-43").status).toBe("todo_refined")
+  })
+
+  test("keeps the worktree when its path is unknown", async () => {
+    const { $, backend, registry, emitter, result } = await dispatched("ORC-42")
+    // Partial recovery: branch known, worktree path not
+    registry.set("ORC-42", { ...registry.get("ORC-42")!, worktreePath: "" })
+
+    const cleaned = JSON.parse(
+      await cleanupAgent($, backend, registry, emitter, "ORC-42", undefined, true, {
+        directory: repo.repo,
+        transcript: false,
+      }),
+    )
+    expect(cleaned.worktreeKept).toBe(true)
+    expect(cleaned.actions).toContain("worktree path unknown, worktree kept (nothing archived)")
+    expect(lb.callsTo("worktree delete")).toEqual([])
+    expect(existsSync(result.worktreePath)).toBe(true)
+    expect(registry.has("ORC-42")).toBe(false)
+  })
+})
+
+describe("listAgents", () => {
+  test("lists registered agents with their process and session state", async () => {
+    const { $, backend, registry } = await dispatched("ORC-50")
+    backend.crash("ORC_50")
+
+    const listed = JSON.parse(await listAgents($, backend, registry))
+    expect(listed.count).toBe(1)
+    expect(listed.agents[0]).toMatchObject({
+      issueId: "ORC-50",
+      branch: "ORC-50",
+      baseBranch: "main",
+      processAlive: false,
+      reachable: false,
+      sessionStatus: "unreachable",
+      state: "unreachable",
+    })
+    expect(listed.queued).toEqual([])
+  })
+})
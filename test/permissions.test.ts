@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test"
+import { autoApprovable, matchesCommand, type PendingPermission } from "../permissions"
+
+function request(fields: Partial<PendingPermission>): PendingPermission {
+  return { id: "per_1", sessionId: "ses_1", permission: "bash", patterns: [], title: "Run command", ...fields }
+}
+
+describe("matchesCommand", () => {
+  test("matches the whole command exactly", () => {
+    expect(matchesCommand("npm test", "npm test")).toBe(true)
+    expect(matchesCommand(" npm test ", "npm test  ")).toBe(true)
+    expect(matchesCommand("npm test", "npm test --watch")).toBe(false)
+    expect(matchesCommand("npm test", "run npm test")).toBe(false)
+  })
+
+  test("* matches any run of characters", () => {
+    expect(matchesCommand("npm run *", "npm run build")).toBe(true)
+    expect(matchesCommand("npm run *", "npm run lint -- --fix")).toBe(true)
+    expect(matchesCommand("git * --oneline", "git log -n 5 --oneline")).toBe(true)
+    expect(matchesCommand("npm run *", "npm test")).toBe(false)
+  })
+
+  test("regex metacharacters in patterns are literal", () => {
+    expect(matchesCommand("ls a.b", "ls a.b")).toBe(true)
+    expect(matchesCommand("ls a.b", "ls axb")).toBe(false)
+    expect(matchesCommand("echo (x)+[y]?", "echo (x)+[y]?")).toBe(true)
+    expect(matchesCommand("echo (x)+[y]?", "echo xx")).toBe(false)
+    expect(matchesCommand("grep ^foo$ a.txt", "grep ^foo$ a.txt")).toBe(true)
+    expect(matchesCommand("cat C:\\tmp", "cat C:\\tmp")).toBe(true)
+  })
+})
+
+describe("autoApprovable", () => {
+  const allowed = ["npm test", "npm run *", "git status"]
+
+  test("approves a bash command matching a pattern", () => {
+    expect(autoApprovable(request({ patterns: ["npm run build"] }), allowed)).toBe(true)
+  })
+
+  test.each([
+    ["npm run build; rm -rf /"],
+    ["npm run build && rm -rf /"],
+    ["npm run build | sh"],
+    ["npm run `rm -rf /`"],
+    ["npm run $(rm -rf /)"],
+    ["npm run build > /etc/passwd"],
+    ["npm run build < input"],
+    ["npm run build\nrm -rf /"],
+  ])("rejects %p although it starts with an allowed command", (command) => {
+    expect(autoApprovable(request({ patterns: [command] }), allowed)).toBe(false)
+  })
+
+  test("approves a multi-pattern request only if every command matches", () => {
+    expect(autoApprovable(request({ patterns: ["npm test", "git status"] }), allowed)).toBe(true)
+    expect(autoApprovable(request({ patterns: ["npm test", "git push"] }), allowed)).toBe(false)
+  })
+
+  test("never approves other permissions, empty requests or an empty allowlist", () => {
+    expect(autoApprovable(request({ permission: "edit", patterns: ["npm test"] }), allowed)).toBe(false)
+    expect(autoApprovable(request({ permission: "webfetch", patterns: ["npm test"] }), ["*"])).toBe(false)
+    expect(autoApprovable(request({ patterns: [] }), allowed)).toBe(false)
+    expect(autoApprovable(request({ patterns: ["npm test"] }), [])).toBe(false)
+  })
+})
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, test } from "bun:test"
+import { DispatchQueue } from "../queue"
+import { AgentRegistry } from "../registry"
+
+let registry: AgentRegistry
+let queue: DispatchQueue
+let runs: string[]
+
+beforeEach(() => {
+  registry = new AgentRegistry()
+  runs = []
+  // Mirrors dispatch: a registered issue only reports the existing agent
+  queue = new DispatchQueue(registry, 1, async ({ issueId }) => {
+    runs.push(issueId)
+    if (registry.has(issueId)) return JSON.stringify({ status: "already_running", issueId })
+    registry.set(issueId, {
+      issueId,
+      port: 47700,
+      sessionId: "ses_1",
+      tmuxSession: issueId.replace(/-/g, "_"),
+      branch: issueId,
+      worktreePath: `/tmp/${issueId}`,
+      dispatchedAt: "2026-01-01T00:00:00.000Z",
+      model: "claude-sonnet-4-6",
+      provider: "anthropic",
+    })
+    return JSON.stringify({ status: "dispatched", issueId })
+  })
+})
+
+describe("DispatchQueue", () => {
+  test("queues beyond the limit and starts the next issue when a slot frees up", async () => {
+    await queue.submit({ issueId: "Q-1", prompt: "Go" })
+    expect(JSON.parse(await queue.submit({ issueId: "Q-2", prompt: "Go" }))).toMatchObject({ status: "queued", position: 1 })
+
+    queue.markFinished("Q-1")
+    await queue.drain()
+    expect(runs).toEqual(["Q-1", "Q-2"])
+    expect(queue.activeCount()).toBe(1)
+  })
+
+  test("re-submitting a finished agent leaves its slot free", async () => {
+    await queue.submit({ issueId: "Q-3", prompt: "Go" })
+    queue.markFinished("Q-3")
+
+    expect(JSON.parse(await queue.submit({ issueId: "Q-3", prompt: "Go" })).status).toBe("already_running")
+    expect(queue.activeCount()).toBe(0)
+    expect(JSON.parse(await queue.submit({ issueId: "Q-4", prompt: "Go" })).status).toBe("dispatched")
+  })
+
+  test("a cleaned up issue occupies a slot again when re-dispatched", async () => {
+    await queue.submit({ issueId: "Q-5", prompt: "Go" })
+    queue.markFinished("Q-5")
+    registry.delete("Q-5")
+
+    expect(JSON.parse(await queue.submit({ issueId: "Q-5", prompt: "Go" })).status).toBe("dispatched")
+    expect(queue.activeCount()).toBe(1)
+  })
+})
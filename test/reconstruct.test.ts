@@ -0,0 +1,172 @@
+import { afterAll, afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { MemoryBackend } from "../backend"
+import { serializeAgentMeta, type AgentMeta } from "../meta"
+import { AgentRegistry, type AgentEntry } from "../registry"
+import { reconstructRegistry } from "../orchestrator"
+import { FakeLb, createRepo, shellIn, type TempRepo } from "./harness"
+
+const lb = new FakeLb()
+afterAll(() => lb.remove())
+let repo: TempRepo
+let backend: MemoryBackend
+let registry: AgentRegistry
+
+beforeEach(() => {
+  repo = createRepo()
+  lb.reset(repo.repo)
+  backend = new MemoryBackend()
+  registry = new AgentRegistry()
+})
+
+afterEach(() => repo.remove())
+
+function entry(issueId: string, fields: Partial<AgentEntry> = {}): AgentEntry {
+  return {
+    issueId,
+    port: 47300,
+    sessionId: "ses_1",
+    tmuxSession: issueId.replace(/-/g, "_"),
+    branch: issueId,
+    worktreePath: `${repo.root}/${issueId}`,
+    dispatchedAt: "2026-01-01T00:00:00.000Z",
+    model: "claude-sonnet-4-6",
+    provider: "anthropic",
+    ...fields,
+  }
+}
+
+/** An in_progress lb issue carrying agent metadata */
+function inProgress(issueId: string, meta: Partial<AgentMeta> = {}) {
+  lb.setIssue({
+    identifier: issueId,
+    status: "in_progress",
+    description: `Task\n\n${serializeAgentMeta({ port: 47300, tmux: issueId.replace(/-/g, "_"), session: "ses_1", ...meta })}`,
+  })
+}
+
+async function running(issueId: string, cwd: string) {
+  await backend.start(issueId.replace(/-/g, "_"), cwd, "opencode serve", "/dev/null")
+}
+
+const reconstruct = (restartDead = false) => reconstructRegistry(shellIn(repo.repo), backend, registry, restartDead)
+
+describe("reconstructRegistry", () => {
+  test("keeps a state entry that lb and the process agree on", async () => {
+    const wt = repo.addWorktree("REC-1", "REC-1")
+    registry.set("REC-1", entry("REC-1"))
+    inProgress("REC-1")
+    await running("REC-1", wt)
+
+    await reconstruct()
+    expect(registry.get("REC-1")).toEqual(entry("REC-1"))
+  })
+
+  test("flags disagreements between the state file and lb metadata", async () => {
+    const wt = repo.addWorktree("REC-2", "REC-2")
+    registry.set("REC-2", entry("REC-2"))
+    inProgress("REC-2", { port: 47301, session: "ses_9" })
+    await running("REC-2", wt)
+
+    await reconstruct()
+    expect(registry.get("REC-2")?.port).toBe(47300)
+    expect(registry.get("REC-2")?.warnings).toEqual([
+      "port differs: state 47300, lb 47301",
+      "session differs: state ses_1, lb ses_9",
+    ])
+  })
+
+  test("recovers an agent from lb metadata and git when the state file lost it", async () => {
+    const wt = repo.addWorktree("REC-3-fix-login", "REC-3-fix-login")
+    inProgress("REC-3", { model: "gpt-5", provider: "openai", base: "main" })
+    await running("REC-3", wt)
+
+    await reconstruct()
+    expect(registry.get("REC-3")).toMatchObject({
+      branch: "REC-3-fix-login",
+      worktreePath: wt,
+      model: "gpt-5",
+      provider: "openai",
+      baseBranch: "main",
+      warnings: ["recovered from lb metadata only (no state file entry)"],
+    })
+  })
+
+  test("drops agents whose process is gone and whose worktree no longer exists", async () => {
+    registry.set("REC-4", entry("REC-4"))
+    inProgress("REC-4")
+
+    await reconstruct(true)
+    expect(registry.has("REC-4")).toBe(false)
+  })
+
+  test("keeps agents whose process is gone while their worktree exists, for the watchdog", async () => {
+    repo.addWorktree("REC-8", "REC-8")
+    registry.set("REC-8", entry("REC-8"))
+    inProgress("REC-8")
+
+    await reconstruct(true)
+    expect(registry.get("REC-8")).toEqual({
+      ...entry("REC-8"),
+      warnings: ["server not running at startup — left for the watchdog to restart"],
+    })
+  })
+
+  test("drops agents whose process is gone when the watchdog is off, even with a worktree", async () => {
+    repo.addWorktree("REC-11", "REC-11")
+    registry.set("REC-11", entry("REC-11"))
+    inProgress("REC-11")
+
+    await reconstruct()
+    expect(registry.has("REC-11")).toBe(false)
+  })
+
+  test("keeps an lb-only agent whose process is gone when git still has its worktree", async () => {
+    const wt = repo.addWorktree("REC-9-retry", "REC-9-retry")
+    inProgress("REC-9")
+
+    await reconstruct(true)
+    expect(registry.get("REC-9")).toMatchObject({
+      branch: "REC-9-retry",
+      worktreePath: wt,
+      warnings: [
+        "server not running at startup — left for the watchdog to restart",
+        "recovered from lb metadata only (no state file entry)",
+      ],
+    })
+  })
+
+  test("drops an lb-only agent whose process is gone and whose worktree is unknown", async () => {
+    inProgress("REC-10")
+
+    await reconstruct(true)
+    expect(registry.has("REC-10")).toBe(false)
+  })
+
+  test("keeps parked agents even though their server is stopped", async () => {
+    registry.set("REC-5", entry("REC-5", { parkedAt: "2026-01-01T01:00:00.000Z" }))
+    inProgress("REC-5")
+
+    await reconstruct()
+    expect(registry.has("REC-5")).toBe(true)
+  })
+
+  test("flags state entries lb no longer has in progress", async () => {
+    const wt = repo.addWorktree("REC-6", "REC-6")
+    registry.set("REC-6", entry("REC-6"))
+    lb.setIssue({ identifier: "REC-6", status: "in_review" })
+    await running("REC-6", wt)
+
+    await reconstruct()
+    expect(registry.get("REC-6")?.warnings).toEqual(["in state file but not in_progress in lb (or metadata missing)"])
+  })
+
+  test("keeps state entries unflagged when lb fails", async () => {
+    const wt = repo.addWorktree("REC-7", "REC-7")
+    registry.set("REC-7", entry("REC-7"))
+    lb.fail("list", "lb: database locked\n")
+    await running("REC-7", wt)
+
+    await reconstruct()
+    expect(registry.get("REC-7")).toEqual(entry("REC-7"))
+  })
+})
@@ -0,0 +1,138 @@
+import { afterAll, afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { mkdirSync } from "fs"
+import { tmpdir } from "os"
+import { MemoryBackend } from "../backend"
+import { serializeAgentMeta } from "../meta"
+import { AgentRegistry } from "../registry"
+import { reconstructRegistry } from "../orchestrator"
+import { FakeLb, createRepo, shellIn, type TempRepo } from "./harness"
+
+// Worktree recovery (git worktree list + process working directory) as seen
+// through reconstructRegistry, for agents known only from lb metadata.
+
+const lb = new FakeLb()
+afterAll(() => lb.remove())
+let repo: TempRepo
+let backend: MemoryBackend
+let registry: AgentRegistry
+
+beforeEach(() => {
+  repo = createRepo()
+  lb.reset(repo.repo)
+  backend = new MemoryBackend()
+  registry = new AgentRegistry()
+})
+
+afterEach(() => repo.remove())
+
+/** An lb-only agent (no state file entry) whose process runs in `cwd` */
+async function agentIn(issueId: string, cwd: string) {
+  const tmux = issueId.replace(/-/g, "_")
+  lb.setIssue({
+    identifier: issueId,
+    status: "in_progress",
+    description: serializeAgentMeta({ port: 47500, tmux, session: "ses_1" }),
+  })
+  await backend.start(tmux, cwd, "opencode serve", "/dev/null")
+}
+
+const reconstruct = () => reconstructRegistry(shellIn(repo.repo), backend, registry)
+const LB_ONLY = "recovered from lb metadata only (no state file entry)"
+
+describe("worktree recovery", () => {
+  test("finds a slugged branch by its issue ID prefix", async () => {
+    const wt = repo.addWorktree("WT-1-add-oauth", "WT-1-add-oauth")
+    // Similar IDs must not match: WT-10 is not WT-1
+    repo.addWorktree("WT-10", "WT-10")
+    await agentIn("WT-1", wt)
+
+    await reconstruct()
+    expect(registry.get("WT-1")).toMatchObject({ branch: "WT-1-add-oauth", worktreePath: wt, warnings: [LB_ONLY] })
+  })
+
+  test("finds the worktree from a process running in a subdirectory of it", async () => {
+    const wt = repo.addWorktree("feature-login", "feature-login")
+    mkdirSync(`${wt}/src/auth`, { recursive: true })
+    await agentIn("WT-2", `${wt}/src/auth`)
+
+    await reconstruct()
+    expect(registry.get("WT-2")).toMatchObject({ branch: "feature-login", worktreePath: wt, warnings: [LB_ONLY] })
+  })
+
+  test("prefers the innermost worktree when worktrees are nested", async () => {
+    const nested = repo.addWorktree("repo/.worktrees/nested", "nested")
+    mkdirSync(`${nested}/lib`)
+    await agentIn("WT-3", `${nested}/lib`)
+
+    await reconstruct()
+    expect(registry.get("WT-3")).toMatchObject({ branch: "nested", worktreePath: nested })
+  })
+
+  test("guesses the branch for a worktree on a detached HEAD", async () => {
+    const wt = repo.addWorktree("detached", null)
+    await agentIn("WT-4", wt)
+
+    await reconstruct()
+    expect(registry.get("WT-4")).toMatchObject({
+      branch: "WT-4",
+      worktreePath: wt,
+      warnings: [LB_ONLY, "worktree is on a detached HEAD — branch guessed"],
+    })
+  })
+
+  test("recognises a skipWorktree agent running in the main worktree", async () => {
+    await agentIn("WT-5", repo.repo)
+
+    await reconstruct()
+    expect(registry.get("WT-5")).toMatchObject({
+      branch: "(no worktree)",
+      worktreePath: repo.repo,
+      warnings: [LB_ONLY],
+    })
+  })
+
+  test("warns when the branch and the process point at different worktrees", async () => {
+    const own = repo.addWorktree("WT-6", "WT-6")
+    const other = repo.addWorktree("WT-7", "WT-7")
+    await agentIn("WT-6", other)
+
+    await reconstruct()
+    expect(registry.get("WT-6")).toMatchObject({
+      branch: "WT-6",
+      worktreePath: own,
+      warnings: [LB_ONLY, `process is in ${other}, not the issue's worktree ${own}`],
+    })
+  })
+
+  test("records a partial recovery when no worktree matches", async () => {
+    repo.addWorktree("unrelated", "unrelated")
+    await agentIn("WT-8", tmpdir())
+
+    await reconstruct()
+    expect(registry.get("WT-8")).toMatchObject({
+      branch: "WT-8",
+      worktreePath: "",
+      warnings: [LB_ONLY, "partial recovery: worktree not found in git — branch guessed, worktree path unknown"],
+    })
+  })
+
+  test("completes a state file entry that was saved without a worktree", async () => {
+    const wt = repo.addWorktree("WT-9-retry", "WT-9-retry")
+    await agentIn("WT-9", wt)
+    registry.set("WT-9", {
+      issueId: "WT-9",
+      port: 47500,
+      sessionId: "ses_1",
+      tmuxSession: "WT_9",
+      branch: "WT-9",
+      worktreePath: "",
+      dispatchedAt: "2026-01-01T00:00:00.000Z",
+      model: "claude-sonnet-4-6",
+      provider: "anthropic",
+    })
+
+    await reconstruct()
+    expect(registry.get("WT-9")).toMatchObject({ branch: "WT-9-retry", worktreePath: wt })
+    expect(registry.get("WT-9")?.warnings).toBeUndefined()
+  })
+})
@@ -0,0 +1,239 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { chmodSync, mkdirSync, mkdtempSync, readFileSync, realpathSync, rmSync, writeFileSync } from "fs"
+import { createHmac } from "crypto"
+import { tmpdir } from "os"
+import { join } from "path"
+import type { Server } from "bun"
+import { LifecycleEmitter, type LifecyclePayload } from "../lifecycle"
+import { LifecycleSinks, deliverWebhook, hookScript, runHookScript, type SinkFailure } from "../sinks"
+
+interface Received {
+  headers: Headers
+  raw: string
+}
+
+/** Local webhook receiver answering with the queued statuses, then 200 */
+class Receiver {
+  readonly received: Received[] = []
+  private server: Server<undefined>
+  private waiters: (() => void)[] = []
+
+  constructor(private statuses: number[] = []) {
+    this.server = Bun.serve({
+      hostname: "127.0.0.1",
+      port: 0,
+      fetch: async (req) => {
+        this.received.push({ headers: req.headers, raw: await req.text() })
+        this.waiters.splice(0).forEach((resolve) => resolve())
+        return new Response(null, { status: this.statuses.shift() ?? 200 })
+      },
+    })
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${this.server.port}/hook`
+  }
+
+  /** Resolves once `count` requests have arrived */
+  async waitFor(count: number): Promise<void> {
+    while (this.received.length < count) await new Promise<void>((resolve) => this.waiters.push(resolve))
+  }
+
+  stop(): void {
+    this.server.stop(true)
+  }
+}
+
+const payload: LifecyclePayload = {
+  issueId: "SNK-1",
+  branch: "SNK-1-fix",
+  port: 47600,
+  reason: "done (PR open)",
+  timestamp: "2026-01-01T00:00:00.000Z",
+}
+const flat = { event: "agent:finished", ...payload }
+
+let receivers: Receiver[] = []
+const receiver = (statuses?: number[]) => {
+  const r = new Receiver(statuses)
+  receivers.push(r)
+  return r
+}
+afterEach(() => {
+  receivers.forEach((r) => r.stop())
+  receivers = []
+})
+
+describe("deliverWebhook", () => {
+  test("POSTs the event with its headers", async () => {
+    const r = receiver()
+    const error = await deliverWebhook({ url: r.url, headers: { Authorization: "Bearer t" } }, "agent:finished", payload)
+
+    expect(error).toBeNull()
+    expect(r.received).toHaveLength(1)
+    const [{ headers, raw }] = r.received
+    expect(JSON.parse(raw)).toEqual(flat)
+    expect(headers.get("content-type")).toBe("application/json")
+    expect(headers.get("x-lb-event")).toBe("agent:finished")
+    expect(headers.get("x-lb-delivery")).toMatch(/^[0-9a-f-]{36}$/)
+    expect(headers.get("authorization")).toBe("Bearer t")
+    expect(headers.has("x-lb-signature")).toBe(false)
+  })
+
+  test("signs the raw body with the secret", async () => {
+    const r = receiver()
+    await deliverWebhook({ url: r.url, secret: "s3cret" }, "agent:finished", payload)
+
+    const [{ headers, raw }] = r.received
+    const expected = createHmac("sha256", "s3cret").update(raw).digest("hex")
+    expect(headers.get("x-lb-signature")).toBe(`sha256=${expected}`)
+  })
+
+  test("reads the secret from secretEnv", async () => {
+    process.env.SNK_TEST_SECRET = "from-env"
+    const r = receiver()
+    await deliverWebhook({ url: r.url, secretEnv: "SNK_TEST_SECRET" }, "agent:finished", payload)
+    delete process.env.SNK_TEST_SECRET
+
+    const [{ headers, raw }] = r.received
+    expect(headers.get("x-lb-signature")).toBe(`sha256=${createHmac("sha256", "from-env").update(raw).digest("hex")}`)
+  })
+
+  test("retries 5xx and 429 with the same delivery ID", async () => {
+    const r = receiver([503, 429])
+    const error = await deliverWebhook({ url: r.url }, "agent:finished", payload, 10)
+
+    expect(error).toBeNull()
+    expect(r.received).toHaveLength(3)
+    expect(new Set(r.received.map((req) => req.headers.get("x-lb-delivery"))).size).toBe(1)
+  })
+
+  test("gives up after the configured retries", async () => {
+    const r = receiver([500, 500, 500])
+    const error = await deliverWebhook({ url: r.url, retries: 2 }, "agent:finished", payload, 10)
+
+    expect(error).toBe("HTTP 500 (after 3 attempt(s))")
+    expect(r.received).toHaveLength(3)
+  })
+
+  test("does not retry other client errors", async () => {
+    const r = receiver([404])
+    const error = await deliverWebhook({ url: r.url }, "agent:finished", payload, 10)
+
+    expect(error).toBe("HTTP 404 (after 1 attempt(s))")
+    expect(r.received).toHaveLength(1)
+  })
+
+  test("retries network errors", async () => {
+    const r = receiver()
+    const url = r.url
+    r.stop()
+    const error = await deliverWebhook({ url, retries: 1 }, "agent:finished", payload, 10)
+    expect(error).toEndWith("(after 2 attempt(s))")
+  })
+})
+
+describe("hook scripts", () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = realpathSync(mkdtempSync(join(tmpdir(), "lb-hooks-")))
+    mkdirSync(join(dir, ".lb/hooks"), { recursive: true })
+  })
+  afterEach(() => rmSync(dir, { recursive: true, force: true }))
+
+  const script = (name: string, body: string) => {
+    const path = join(dir, ".lb/hooks", name)
+    writeFileSync(path, `#!/bin/sh\n${body}\n`)
+    chmodSync(path, 0o755)
+    return path
+  }
+
+  test("finds executable scripts by event name, with or without the colon", () => {
+    expect(hookScript(dir, "agent:finished")).toBeNull()
+    const dashed = script("agent-finished", "exit 0")
+    expect(hookScript(dir, "agent:finished")).toBe(dashed)
+    const colon = script("agent:finished", "exit 0")
+    expect(hookScript(dir, "agent:finished")).toBe(colon)
+    chmodSync(colon, 0o644)
+    expect(hookScript(dir, "agent:finished")).toBe(dashed)
+  })
+
+  test("gets the payload on stdin, the event as argument and in the environment", async () => {
+    const path = script("agent:finished", `cat > stdin.json; echo "$1 $LB_EVENT $LB_ISSUE_ID" > env.txt`)
+    const error = await runHookScript(dir, path, "agent:finished", payload, 5000)
+
+    expect(error).toBeNull()
+    expect(JSON.parse(readFileSync(join(dir, "stdin.json"), "utf8"))).toEqual(flat)
+    expect(readFileSync(join(dir, "env.txt"), "utf8")).toBe("agent:finished agent:finished SNK-1\n")
+  })
+
+  test("reports the exit code and stderr of a failing script", async () => {
+    const path = script("agent:finished", `echo "chat is down" >&2; exit 3`)
+    expect(await runHookScript(dir, path, "agent:finished", payload, 5000)).toBe("exited 3: chat is down")
+  })
+
+  test("a script writing more stderr than the pipe holds still finishes", async () => {
+    const path = script("agent:finished", `head -c 300000 /dev/zero | tr '\\0' x >&2; exit 1`)
+    const start = Date.now()
+    const error = await runHookScript(dir, path, "agent:finished", payload, 5000)
+
+    expect(error).toStartWith("exited 1: xxx")
+    expect(Date.now() - start).toBeLessThan(4000)
+  })
+
+  test("kills a script that runs past the timeout", async () => {
+    const path = script("agent:finished", "sleep 5")
+    expect(await runHookScript(dir, path, "agent:finished", payload, 200)).toBe("timed out after 200ms")
+  })
+})
+
+describe("LifecycleSinks", () => {
+  let dir: string
+  beforeEach(() => {
+    dir = realpathSync(mkdtempSync(join(tmpdir(), "lb-sinks-")))
+  })
+  afterEach(() => rmSync(dir, { recursive: true, force: true }))
+
+  test("delivers emitted events to the webhooks that want them", async () => {
+    const all = receiver()
+    const finishedOnly = receiver()
+    const sinks = new LifecycleSinks(
+      dir,
+      {
+        scripts: true,
+        scriptTimeoutMs: 5000,
+        webhooks: [{ url: all.url }, { url: finishedOnly.url, events: ["agent:finished"] }],
+      },
+      () => {},
+    )
+    const emitter = new LifecycleEmitter()
+    sinks.attach(emitter)
+
+    await emitter.emit("agent:running", { issueId: "SNK-2", port: 47601 })
+    await emitter.emit("agent:finished", { issueId: "SNK-2" })
+    await all.waitFor(2)
+    await finishedOnly.waitFor(1)
+
+    expect(all.received.map((r) => JSON.parse(r.raw).event).sort()).toEqual(["agent:finished", "agent:running"])
+    expect(finishedOnly.received.map((r) => JSON.parse(r.raw))).toEqual([
+      { event: "agent:finished", issueId: "SNK-2", timestamp: expect.any(String) },
+    ])
+  })
+
+  test("reports failed deliveries", async () => {
+    const r = receiver([400])
+    const failures: SinkFailure[] = []
+    const reported = new Promise<void>((resolve) => {
+      new LifecycleSinks(dir, { scripts: false, scriptTimeoutMs: 5000, webhooks: [{ url: r.url }] }, (failure) => {
+        failures.push(failure)
+        resolve()
+      }).deliver("agent:errored", { issueId: "SNK-3", error: "boom", timestamp: payload.timestamp })
+    })
+    await reported
+
+    expect(failures).toEqual([
+      { sink: r.url, event: "agent:errored", issueId: "SNK-3", error: "HTTP 400 (after 1 attempt(s))" },
+    ])
+  })
+})
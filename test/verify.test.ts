@@ -0,0 +1,73 @@
+import { afterAll, afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { LifecycleEmitter } from "../lifecycle"
+import { AgentRegistry, type AgentEntry } from "../registry"
+import { CompletionVerifier, verifyCompletion } from "../verify"
+import { FakeLb, createRepo, shellIn, type TempRepo } from "./harness"
+
+const lb = new FakeLb()
+afterAll(() => lb.remove())
+let repo: TempRepo
+
+beforeEach(() => {
+  repo = createRepo()
+  lb.reset(repo.repo)
+})
+
+afterEach(() => repo.remove())
+
+function agent(fields: Partial<AgentEntry>): AgentEntry {
+  return {
+    issueId: "VER-1",
+    port: 47700,
+    sessionId: "ses_1",
+    tmuxSession: "VER_1",
+    branch: "VER-1",
+    worktreePath: "",
+    dispatchedAt: "2026-01-01T00:00:00.000Z",
+    model: "claude-sonnet-4-6",
+    provider: "anthropic",
+    baseBranch: "main",
+    ...fields,
+  }
+}
+
+describe("verifyCompletion", () => {
+  test("read-only agents are done", async () => {
+    const result = await verifyCompletion(shellIn(repo.repo), agent({ branch: "(no worktree)", worktreePath: repo.repo }))
+    expect(result).toMatchObject({ verdict: "done_no_worktree", done: true })
+  })
+
+  test("an agent whose worktree path is unknown is not done", async () => {
+    lb.setIssue({ identifier: "VER-1", status: "in_progress" })
+    const result = await verifyCompletion(shellIn(repo.repo), agent({ worktreePath: "" }))
+    expect(result).toMatchObject({ verdict: "worktree_unknown", done: false, lbStatus: "in_progress" })
+    expect(result.checklist[0]).toContain("worktree of VER-1 not found")
+  })
+
+  test("commits that were not pushed leave the agent idle", async () => {
+    const wt = repo.addWorktree("VER-1", "VER-1")
+    await shellIn(wt)`git commit -q --allow-empty -m work`.quiet()
+    const result = await verifyCompletion(shellIn(repo.repo), agent({ worktreePath: wt }))
+    expect(result).toMatchObject({ verdict: "committed_not_pushed", done: false, commitsAhead: 1 })
+  })
+
+  test("an issue marked in_review is done", async () => {
+    lb.setIssue({ identifier: "VER-1", status: "in_review" })
+    const wt = repo.addWorktree("VER-1", "VER-1")
+    const result = await verifyCompletion(shellIn(repo.repo), agent({ worktreePath: wt }))
+    expect(result).toMatchObject({ verdict: "done_marked_in_review", done: true })
+  })
+})
+
+describe("CompletionVerifier", () => {
+  test("announces an agent with an unknown worktree as idle, not finished", async () => {
+    const registry = new AgentRegistry()
+    registry.set("VER-1", agent({ worktreePath: "" }))
+    const emitter = new LifecycleEmitter()
+
+    await new CompletionVerifier(shellIn(repo.repo), registry, emitter).settle("VER-1")
+    expect(emitter.history("VER-1").map(({ event, payload }) => [event, payload.reason])).toEqual([
+      ["agent:idle", "idle — worktree unknown, awaiting input"],
+    ])
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Per-agent wall-clock and inactivity timeouts.
+ *
+ * A timer checks every agent with a limit: total runtime since dispatch, and
+ * time since its newest message. An agent past either limit is aborted via
+ * abortAgent, optionally cleaned up back to todo_refined, and the outcome is
+ * posted as an lb comment — the next dispatch sees it in the issue context.
+ * Agents whose work is verifiably done are never timed out.
+ */
+
+import type { PluginInput } from "@opencode-ai/plugin"
+import type { AgentEntry, AgentRegistry } from "./registry"
+import type { LifecycleEmitter } from "./lifecycle"
+import type { ProcessBackend } from "./backend"
+import { AgentMonitor } from "./monitor"
+import { type CleanupOptions, abortAgent, cleanupAgent } from "./orchestrator"
+import { fetchMessages } from "./transcript"
+import { verifyCompletion } from "./verify"
+
+type Shell = PluginInput["$"]
+
+/** Unset (or null) limits are not enforced */
+export interface AgentTimeouts {
+  maxRuntimeMinutes?: number | null
+  inactivityMinutes?: number | null
+  /** After aborting, clean up with status todo_refined */
+  cleanup?: boolean
+}
+
+export class TimeoutMonitor extends AgentMonitor {
+  private timedOut = new Set<string>()
+
+  constructor(
+    private $: Shell,
+    private backend: ProcessBackend,
+    registry: AgentRegistry,
+    private emitter: LifecycleEmitter,
+    private defaults: AgentTimeouts,
+    private cleanupOptions: CleanupOptions,
+  ) {
+    super(registry)
+  }
+
+  /**
+   * Effective limits for an agent: the dispatch's, else the project's.
+   */
+  limits(issueId: string): AgentTimeouts {
+    return { ...this.defaults, ...this.registry.get(issueId)?.timeouts }
+  }
+
+  /**
+   * Abort (and optionally clean up) every agent past one of its limits.
+   */
+  protected async checkAgents(): Promise<void> {
+    const now = Date.now()
+    for (const [issueId, agent] of [...this.registry.entries()]) {
+      if (this.timedOut.has(issueId) || agent.parkedAt) continue
+      const limits = this.limits(issueId)
+      if (limits.maxRuntimeMinutes == null && limits.inactivityMinutes == null) continue
+
+      const reason = await this.expired(agent, limits, now)
+      if (!reason) continue
+      // Finished agents sit idle on purpose
+      if ((await verifyCompletion(this.$, agent)).done) continue
+
+      this.timedOut.add(issueId)
+      await this.timeOut(agent, reason, limits.cleanup ?? false)
+    }
+  }
+
+  protected tracked(): Iterable<string> {
+    return this.timedOut
+  }
+
+  protected forget(issueId: string): void {
+    this.timedOut.delete(issueId)
+  }
+
+  private async expired(agent: AgentEntry, limits: AgentTimeouts, now: number): Promise<string | null> {
+    const runtime = (now - Date.parse(agent.dispatchedAt)) / 60_000
+    if (limits.maxRuntimeMinutes != null && runtime > limits.maxRuntimeMinutes) {
+      return `ran ${Math.round(runtime)}m, over the ${limits.maxRuntimeMinutes}m runtime limit`
+    }
+    if (limits.inactivityMinutes != null) {
+      const messages = await fetchMessages(agent.port, agent.sessionId)
+      if (!messages) return null
+      const lastActivity = Math.max(
+        Date.parse(agent.dispatchedAt),
+        ...messages.map((m) => {
+          const time = (m.info ?? m).time ?? {}
+          return Math.max(time.created ?? 0, time.completed ?? 0)
+        }),
+      )
+      const quiet = (now - lastActivity) / 60_000
+      if (quiet > limits.inactivityMinutes) {
+        return `no new messages for ${Math.round(quiet)}m, over the ${limits.inactivityMinutes}m inactivity limit`
+      }
+    }
+    return null
+  }
+
+  private async timeOut(agent: AgentEntry, reason: string, cleanup: boolean): Promise<void> {
+    const { issueId } = agent
+    const abort = JSON.parse(await abortAgent(this.$, this.registry, this.emitter, issueId))
+    const actions = [abort.status === "aborted" ? "aborted" : `abort ${abort.status}`]
+
+    if (cleanup) {
+      const result = JSON.parse(
+        await cleanupAgent(
+          this.$, this.backend, this.registry, this.emitter, issueId, "todo_refined", true, this.cleanupOptions,
+        ),
+      )
+      actions.push(
+        result.status === "cleaned_up"
+          ? `cleaned up to todo_refined${result.archive ? ` (work archived to ${result.archive})` : ""}`
+          : `cleanup ${result.status}`,
+      )
+    }
+
+    // Leave a note on the issue so the next attempt knows this one ran out of time
+    const note =
+      `opencode-lb: background agent timed out — ${reason}. ` +
+      `Branch \`${agent.branch}\`, dispatched ${agent.dispatchedAt}. ${actions.join("; ")}.`
+    await this.$`lb comment ${issueId} ${note}`.quiet().nothrow()
+
+    await this.emitter.emit("agent:errored", {
+      issueId,
+      branch: agent.branch,
+      port: agent.port,
+      reason: "timeout",
+      error: `Timed out: ${reason} — ${actions.join("; ")}`,
+    })
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Full agent transcripts.
+ *
+ * Fetches a session's messages from GET /session/:id/message and renders
+ * them as markdown (turns, tool calls with input/output, errors) or JSONL
+ * (one message per line). A condensed markdown version fits in an lb comment.
+ */
+
+import { mkdirSync, writeFileSync } from "fs"
+import type { PluginInput } from "@opencode-ai/plugin"
+import type { AgentEntry } from "./registry"
+import { truncate } from "./util"
+
+type Shell = PluginInput["$"]
+
+export type TranscriptFormat = "markdown" | "jsonl"
+
+// Condensed transcripts: per-text and overall limits
+const CONDENSED_TEXT_CHARS = 400
+const CONDENSED_MAX_CHARS = 6000
+
+/**
+ * All messages of a session, or null if the server can't be reached.
+ */
+export async function fetchMessages(port: number, sessionId: string): Promise<any[] | null> {
+  try {
+    const resp = await fetch(`http://localhost:${port}/session/${sessionId}/message`, {
+      signal: AbortSignal.timeout(10_000),
+    })
+    if (!resp.ok) return null
+    const messages = await resp.json()
+    return Array.isArray(messages) ? messages : null
+  } catch {
+    return null
+  }
+}
+
+export function renderJsonl(messages: any[]): string {
+  return messages.map((m) => JSON.stringify(m)).join("\n") + "\n"
+}
+
+/**
+ * Full markdown transcript: every text part, tool call (input and output)
+ * and error, in order.
+ */
+export function renderMarkdown(agent: AgentEntry, messages: any[]): string {
+  const out = [
+    `# Transcript: ${agent.issueId}`,
+    "",
+    `Session \`${agent.sessionId}\` · branch \`${agent.branch}\` · ${agent.provider}/${agent.model} · exported ${new Date().toISOString()}`,
+  ]
+
+  for (const msg of messages) {
+    const info = msg.info ?? msg
+    out.push("", `## ${heading(info)}`)
+    for (const part of msg.parts ?? info.parts ?? []) {
+      if (part.type === "text" && part.text?.trim()) {
+        out.push("", part.text.trim())
+      } else if (part.type === "reasoning" && part.text?.trim()) {
+        out.push("", `> ${part.text.trim().replace(/\n/g, "\n> ")}`)
+      } else if (part.type === "tool") {
+        const state = part.state ?? {}
+        out.push("", `**Tool \`${part.tool}\`** (${state.status ?? "unknown"})`)
+        if (state.input !== undefined) out.push("", "Input:", fence(JSON.stringify(state.input, null, 2), "json"))
+        if (state.output) out.push("", "Output:", fence(String(state.output)))
+        if (state.error) out.push("", `**Error:** ${state.error}`)
+      }
+    }
+    const error = messageError(info)
+    if (error) out.push("", `**Error:** ${error}`)
+  }
+  return out.join("\n") + "\n"
+}
+
+/**
+ * Short markdown summary for an lb comment: texts trimmed, tool calls
+ * reduced to one line each, the whole thing capped (latest turns win).
+ */
+export function renderCondensed(agent: AgentEntry, messages: any[]): string {
+  const turns: string[] = []
+  for (const msg of messages) {
+    const info = msg.info ?? msg
+    const lines: string[] = [`**${heading(info)}**`]
+    const tools: string[] = []
+    for (const part of msg.parts ?? info.parts ?? []) {
+      if (part.type === "text" && part.text?.trim()) {
+        lines.push(truncate(part.text.trim(), CONDENSED_TEXT_CHARS))
+      } else if (part.type === "tool") {
+        tools.push(`\`${part.tool}\`${part.state?.status === "error" ? " (error)" : ""}`)
+      }
+    }
+    if (tools.length) lines.push(`Tools: ${tools.join(", ")}`)
+    const error = messageError(info)
+    if (error) lines.push(`Error: ${truncate(error, CONDENSED_TEXT_CHARS)}`)
+    turns.push(lines.join("\n"))
+  }
+
+  const header = `Agent transcript (condensed) — session \`${agent.sessionId}\`, ${messages.length} messages`
+  // Keep the most recent turns that fit
+  const kept: string[] = []
+  let size = header.length
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (size + turns[i].length + 2 > CONDENSED_MAX_CHARS) {
+      kept.unshift(`… ${i + 1} earlier message(s) omitted`)
+      break
+    }
+    kept.unshift(turns[i])
+    size += turns[i].length + 2
+  }
+  return [header, ...kept].join("\n\n")
+}
+
+/**
+ * Export an agent's transcript to `${dir}/<ID>-<timestamp>.md|.jsonl`, and
+ * optionally post the condensed version as an lb comment.
+ */
+export async function exportTranscript(
+  $: Shell,
+  agent: AgentEntry,
+  dir: string,
+  format: TranscriptFormat = "markdown",
+  comment = false,
+): Promise<string> {
+  const messages = await fetchMessages(agent.port, agent.sessionId)
+  if (!messages) {
+    return JSON.stringify({
+      status: "unreachable",
+      issueId: agent.issueId,
+      error: `Could not fetch session ${agent.sessionId} from port ${agent.port}`,
+    })
+  }
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+  const file = `${dir}/${agent.issueId}-${stamp}.${format === "jsonl" ? "jsonl" : "md"}`
+  mkdirSync(dir, { recursive: true })
+  writeFileSync(file, format === "jsonl" ? renderJsonl(messages) : renderMarkdown(agent, messages))
+
+  let commented: boolean | undefined
+  let commentError: string | undefined
+  if (comment) {
+    const body = renderCondensed(agent, messages)
+    const result = await $`lb comment ${agent.issueId} ${body}`.quiet().nothrow()
+    commented = result.exitCode === 0
+    if (!commented) commentError = result.stderr.toString().trim() || `lb comment exited ${result.exitCode}`
+  }
+
+  return JSON.stringify({
+    status: "exported",
+    issueId: agent.issueId,
+    file,
+    format,
+    messages: messages.length,
+    ...(comment ? { commented, commentError } : {}),
+  })
+}
+
+function heading(info: any): string {
+  const role = info.role === "assistant" ? "Assistant" : info.role === "user" ? "User" : info.role ?? "Unknown"
+  const created = info.time?.created
+  const when = typeof created === "number" ? new Date(created).toISOString() : ""
+  const model = info.role === "assistant" && info.modelID ? ` · ${info.modelID}` : ""
+  return `${role}${model}${when ? ` · ${when}` : ""}`
+}
+
+function messageError(info: any): string | null {
+  const error = info.error
+  if (!error) return null
+  return error.data?.message ?? error.message ?? error.name ?? String(error)
+}
+
+function fence(text: string, lang = ""): string {
+  // Longer fence than any backtick run inside the text
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((r) => r.length))
+  const ticks = "`".repeat(longest + 1)
+  return `${ticks}${lang}\n${text}\n${ticks}`
+}
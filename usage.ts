@@ -0,0 +1,176 @@
+/**
+ * Token and cost accounting for background agents, with optional budgets.
+ *
+ * Usage is summed from the assistant message metadata opencode serve returns
+ * (info.tokens, info.cost). A budget comes from the dispatch (maxCost /
+ * maxTokens) or the project config; an agent that crosses it is aborted
+ * through abortAgent and an agent:errored event carries the reason.
+ */
+
+import type { PluginInput } from "@opencode-ai/plugin"
+import type { AgentRegistry } from "./registry"
+import type { LifecycleEmitter } from "./lifecycle"
+import { AgentMonitor } from "./monitor"
+import { abortAgent } from "./orchestrator"
+import { fetchMessages } from "./transcript"
+
+type Shell = PluginInput["$"]
+
+export interface AgentUsage {
+  inputTokens: number
+  outputTokens: number
+  reasoningTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  totalTokens: number
+  /** USD, as reported by opencode */
+  cost: number
+  assistantMessages: number
+}
+
+/** Unset (or null) limits are not enforced */
+export interface Budget {
+  /** USD */
+  maxCost?: number | null
+  maxTokens?: number | null
+}
+
+/**
+ * Sum token usage and cost over a session's assistant messages.
+ */
+export function summarizeUsage(messages: any[]): AgentUsage {
+  const usage: AgentUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    assistantMessages: 0,
+  }
+  for (const msg of messages) {
+    const info = msg.info ?? msg
+    if (info.role !== "assistant") continue
+    usage.assistantMessages++
+    const tokens = info.tokens ?? {}
+    usage.inputTokens += tokens.input ?? 0
+    usage.outputTokens += tokens.output ?? 0
+    usage.reasoningTokens += tokens.reasoning ?? 0
+    usage.cacheReadTokens += tokens.cache?.read ?? 0
+    usage.cacheWriteTokens += tokens.cache?.write ?? 0
+    usage.cost += typeof info.cost === "number" ? info.cost : 0
+  }
+  usage.totalTokens =
+    usage.inputTokens + usage.outputTokens + usage.reasoningTokens + usage.cacheReadTokens + usage.cacheWriteTokens
+  usage.cost = Math.round(usage.cost * 10_000) / 10_000
+  return usage
+}
+
+/**
+ * Why `usage` is over `budget`, or null if within it.
+ */
+export function overBudget(usage: AgentUsage, budget: Budget): string | null {
+  if (budget.maxCost != null && usage.cost > budget.maxCost) {
+    return `cost $${usage.cost.toFixed(2)} exceeds budget $${budget.maxCost.toFixed(2)}`
+  }
+  if (budget.maxTokens != null && usage.totalTokens > budget.maxTokens) {
+    return `${usage.totalTokens} tokens exceed budget ${budget.maxTokens}`
+  }
+  return null
+}
+
+/**
+ * Tracks usage per agent and enforces budgets on a timer. Agents without a
+ * budget are only measured on demand (lb_agents / lb_check).
+ */
+export class UsageMonitor extends AgentMonitor {
+  private latest = new Map<string, AgentUsage>()
+  private enforced = new Set<string>()
+
+  constructor(
+    private $: Shell,
+    registry: AgentRegistry,
+    private emitter: LifecycleEmitter,
+    private projectBudget: Budget,
+  ) {
+    super(registry)
+  }
+
+  /**
+   * Effective budget for an agent: the dispatch's, else the project's.
+   */
+  budget(issueId: string): Budget {
+    return { ...this.projectBudget, ...this.registry.get(issueId)?.budget }
+  }
+
+  /**
+   * Fetch current usage for an agent. Falls back to the last known usage
+   * when the server is unreachable.
+   */
+  async usage(issueId: string): Promise<AgentUsage | null> {
+    const agent = this.registry.get(issueId)
+    if (!agent) return null
+    const messages = agent.parkedAt ? null : await fetchMessages(agent.port, agent.sessionId)
+    if (messages) this.latest.set(issueId, summarizeUsage(messages))
+    return this.latest.get(issueId) ?? null
+  }
+
+  /**
+   * Usage and budget for tool output.
+   */
+  async report(issueId: string): Promise<{ usage: AgentUsage | null; budget: Budget; overBudget: string | null }> {
+    const usage = await this.usage(issueId)
+    const budget = this.budget(issueId)
+    return { usage, budget, overBudget: usage ? overBudget(usage, budget) : null }
+  }
+
+  /**
+   * Totals across all registered agents (last known usage).
+   */
+  totals(): { cost: number; totalTokens: number } {
+    let cost = 0
+    let totalTokens = 0
+    for (const [issueId] of this.registry.entries()) {
+      const usage = this.latest.get(issueId)
+      cost += usage?.cost ?? 0
+      totalTokens += usage?.totalTokens ?? 0
+    }
+    return { cost: Math.round(cost * 10_000) / 10_000, totalTokens }
+  }
+
+  /**
+   * Measure every agent with a budget and abort those over it. Each agent is
+   * aborted once, so follow-ups (e.g. "push what you have") still go through.
+   */
+  protected async checkAgents(): Promise<void> {
+    for (const [issueId, agent] of [...this.registry.entries()]) {
+      const budget = this.budget(issueId)
+      if (budget.maxCost == null && budget.maxTokens == null) continue
+      if (this.enforced.has(issueId) || agent.parkedAt) continue
+
+      const usage = await this.usage(issueId)
+      const reason = usage ? overBudget(usage, budget) : null
+      if (!reason) continue
+
+      this.enforced.add(issueId)
+      const result = JSON.parse(await abortAgent(this.$, this.registry, this.emitter, issueId))
+      await this.emitter.emit("agent:errored", {
+        issueId,
+        branch: agent.branch,
+        port: agent.port,
+        reason: "budget",
+        error: `Budget exceeded: ${reason}${result.status === "aborted" ? " — agent aborted" : ` — abort ${result.status}`}`,
+      })
+    }
+  }
+
+  protected tracked(): Iterable<string> {
+    return this.latest.keys()
+  }
+
+  protected forget(issueId: string): void {
+    this.latest.delete(issueId)
+    this.enforced.delete(issueId)
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Small helpers shared across modules.
+ */
+
+export const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+/**
+ * Cut `text` to at most `max` characters, marking the cut with an ellipsis.
+ */
+export function truncate(text: string, max: number): string {
+  return text.length <= max ? text : text.slice(0, max - 1).trimEnd() + "…"
+}
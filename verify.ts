@@ -0,0 +1,253 @@
+/**
+ * Completion verifier — decides whether an idle agent actually finished.
+ *
+ * An idle session only means the model stopped talking; it may be waiting for
+ * an answer. Completion is judged from concrete signals instead: commits ahead
+ * of the base branch, the branch pushed to the remote, a PR (via gh, when
+ * installed) and the lb status the agent set. Idle agents are announced as
+ * agent:finished only when these show the work was handed off, otherwise as
+ * agent:idle.
+ */
+
+import type { PluginInput } from "@opencode-ai/plugin"
+import type { AgentEntry, AgentRegistry } from "./registry"
+import type { LifecycleEmitter } from "./lifecycle"
+
+type Shell = PluginInput["$"]
+
+export type CompletionVerdict =
+  | "done_pr_open"
+  | "done_marked_in_review"
+  | "done_no_worktree"
+  | "pushed_no_pr"
+  | "committed_not_pushed"
+  | "idle_awaiting_input"
+  | "worktree_unknown"
+
+export interface CompletionChecklist {
+  verdict: CompletionVerdict
+  /** True when the verdict counts as finished work */
+  done: boolean
+  baseBranch: string | null
+  commitsAhead: number | null
+  /** null when the branch has no remote counterpart to compare with */
+  unpushedCommits: number | null
+  pushed: boolean
+  uncommittedChanges: number | null
+  /** null when gh is not installed */
+  pr: { number: number; url: string; state: string } | null | undefined
+  lbStatus: string | null
+  /** Human-readable "[x] …" / "[ ] …" lines */
+  checklist: string[]
+}
+
+const DONE_VERDICTS = new Set<CompletionVerdict>([
+  "done_pr_open",
+  "done_marked_in_review",
+  "done_no_worktree",
+])
+
+let ghAvailable: boolean | null = null
+
+/**
+ * Gather the completion signals for an agent's worktree.
+ */
+export async function verifyCompletion($: Shell, agent: AgentEntry): Promise<CompletionChecklist> {
+  const lbStatus = await issueStatus($, agent.issueId)
+
+  if (agent.branch === "(no worktree)") {
+    return {
+      verdict: "done_no_worktree",
+      done: true,
+      baseBranch: null,
+      commitsAhead: null,
+      unpushedCommits: null,
+      pushed: false,
+      uncommittedChanges: null,
+      pr: undefined,
+      lbStatus,
+      checklist: ["[-] no worktree — nothing to commit or push"],
+    }
+  }
+
+  if (!agent.worktreePath) {
+    // Partial recovery: there is a branch, but nothing to inspect it in
+    return {
+      verdict: "worktree_unknown",
+      done: false,
+      baseBranch: agent.baseBranch ?? null,
+      commitsAhead: null,
+      unpushedCommits: null,
+      pushed: false,
+      uncommittedChanges: null,
+      pr: undefined,
+      lbStatus,
+      checklist: [
+        `[?] worktree of ${agent.branch} not found — commits, push and PR unknown`,
+        `${lbStatus === "in_review" || lbStatus === "done" ? "[x]" : "[ ]"} lb status ${lbStatus ?? "unknown"}`,
+      ],
+    }
+  }
+
+  const wt = agent.worktreePath
+  const git = async (...args: string[]): Promise<string | null> => {
+    const result = await $`git -C ${wt} ${args}`.quiet().nothrow()
+    return result.exitCode === 0 ? result.text().trim() : null
+  }
+  const count = (out: string | null) => (out === null ? null : parseInt(out, 10) || 0)
+
+  const baseBranch = agent.baseBranch ?? (await git("rev-parse", "--abbrev-ref", "origin/HEAD")) ?? "main"
+  const commitsAhead = count(await git("rev-list", "--count", `${baseBranch}..HEAD`))
+
+  // Upstream if set, else a same-named remote branch (pushed without -u)
+  const upstream =
+    (await git("rev-parse", "--abbrev-ref", "@{u}")) ??
+    ((await git("rev-parse", "--verify", "-q", `refs/remotes/origin/${agent.branch}`)) !== null
+      ? `origin/${agent.branch}`
+      : null)
+  const unpushedCommits = upstream ? count(await git("rev-list", "--count", `${upstream}..HEAD`)) : null
+  const pushed = unpushedCommits === 0
+
+  const status = await git("status", "--porcelain")
+  const uncommittedChanges = status === null ? null : status.split("\n").filter(Boolean).length
+
+  const pr = await pullRequest($, wt, agent.branch)
+
+  let verdict: CompletionVerdict
+  if (pr && pr.state !== "CLOSED") verdict = "done_pr_open"
+  else if (lbStatus === "in_review" || lbStatus === "done") verdict = "done_marked_in_review"
+  else if (pushed && (commitsAhead ?? 0) > 0) verdict = "pushed_no_pr"
+  else if ((commitsAhead ?? 0) > 0) verdict = "committed_not_pushed"
+  else verdict = "idle_awaiting_input"
+
+  const box = (ok: boolean) => (ok ? "[x]" : "[ ]")
+  const checklist = [
+    commitsAhead === null
+      ? `[?] commits ahead of ${baseBranch} (base not found)`
+      : `${box(commitsAhead > 0)} ${commitsAhead} commit(s) ahead of ${baseBranch}`,
+    uncommittedChanges === null
+      ? "[?] working tree clean"
+      : `${box(uncommittedChanges === 0)} working tree clean${uncommittedChanges ? ` (${uncommittedChanges} uncommitted)` : ""}`,
+    upstream
+      ? `${box(pushed)} pushed to ${upstream}${unpushedCommits ? ` (${unpushedCommits} unpushed)` : ""}`
+      : "[ ] pushed (no remote branch)",
+    pr === null
+      ? "[?] PR open (gh not installed)"
+      : pr
+        ? `${box(pr.state !== "CLOSED")} PR #${pr.number} ${pr.state.toLowerCase()} — ${pr.url}`
+        : "[ ] PR open",
+    `${box(lbStatus === "in_review" || lbStatus === "done")} lb status ${lbStatus ?? "unknown"}`,
+  ]
+
+  return {
+    verdict,
+    done: DONE_VERDICTS.has(verdict),
+    baseBranch,
+    commitsAhead,
+    unpushedCommits,
+    pushed,
+    uncommittedChanges,
+    pr,
+    lbStatus,
+    checklist,
+  }
+}
+
+/**
+ * Turns idle signals (event stream or poller) into agent:finished or
+ * agent:idle, once per idle period — repeated polls of the same state stay
+ * quiet until the agent works again or its verdict changes.
+ */
+export class CompletionVerifier {
+  private settled = new Map<string, CompletionVerdict>()
+
+  constructor(
+    private $: Shell,
+    private registry: AgentRegistry,
+    private emitter: LifecycleEmitter,
+  ) {}
+
+  /**
+   * The agent went idle — verify and announce the outcome.
+   */
+  async settle(issueId: string): Promise<CompletionChecklist | null> {
+    const agent = this.registry.get(issueId)
+    if (!agent) return null
+    const result = await verifyCompletion(this.$, agent)
+    if (this.settled.get(issueId) === result.verdict) return result
+    this.settled.set(issueId, result.verdict)
+
+    const payload = { issueId, branch: agent.branch, port: agent.port, reason: describeVerdict(result.verdict) }
+    if (result.done) {
+      await this.emitter.emit("agent:finished", payload)
+    } else {
+      await this.emitter.emit("agent:idle", payload)
+    }
+    return result
+  }
+
+  /**
+   * The agent is working again (or was cleaned up) — its next idle is announced.
+   */
+  forget(issueId: string): void {
+    this.settled.delete(issueId)
+  }
+}
+
+/**
+ * Short description of a verdict for toasts and tool output.
+ */
+export function describeVerdict(verdict: CompletionVerdict): string {
+  switch (verdict) {
+    case "done_pr_open":
+      return "done with PR open"
+    case "done_marked_in_review":
+      return "done — marked in_review in lb"
+    case "done_no_worktree":
+      return "done (read-only, no worktree)"
+    case "pushed_no_pr":
+      return "idle — branch pushed but no PR"
+    case "committed_not_pushed":
+      return "idle — commits not pushed"
+    case "idle_awaiting_input":
+      return "idle, awaiting input"
+    case "worktree_unknown":
+      return "idle — worktree unknown, awaiting input"
+  }
+}
+
+async function issueStatus($: Shell, issueId: string): Promise<string | null> {
+  try {
+    const issue = JSON.parse((await $`lb show ${issueId} --json`.quiet().text()).trim())
+    return issue?.status ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * PR for the branch via gh. null when gh is not installed, undefined when
+ * there is no PR.
+ */
+async function pullRequest(
+  $: Shell,
+  cwd: string,
+  branch: string,
+): Promise<{ number: number; url: string; state: string } | null | undefined> {
+  if (ghAvailable === null) {
+    try {
+      ghAvailable = (await $`gh --version`.quiet().nothrow()).exitCode === 0
+    } catch {
+      ghAvailable = false
+    }
+  }
+  if (!ghAvailable) return null
+  const result = await $`gh pr view ${branch} --json number,url,state`.cwd(cwd).quiet().nothrow()
+  if (result.exitCode !== 0) return undefined
+  try {
+    const pr = JSON.parse(result.text())
+    return { number: pr.number, url: pr.url, state: pr.state }
+  } catch {
+    return undefined
+  }
+}
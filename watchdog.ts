@@ -0,0 +1,125 @@
+/**
+ * Crash watchdog — notices when an agent's opencode serve has died and
+ * restarts it in place, keeping the worktree and (where possible) the session.
+ *
+ * A server counts as dead when its process (tmux session) is alive but the port
+ * no longer answers (two checks in a row), or when the process is gone but the
+ * worktree remains.
+ * Restarts are capped per agent; past the cap an agent:errored event is emitted
+ * once and the agent is left for lb_cleanup. Agents parked by auto cleanup are
+ * stopped on purpose and left alone.
+ */
+
+import { existsSync } from "fs"
+import type { PluginInput } from "@opencode-ai/plugin"
+import type { AgentRegistry } from "./registry"
+import type { LifecycleEmitter } from "./lifecycle"
+import type { ProcessBackend } from "./backend"
+import { type PortRange, isServerUp } from "./ports"
+import { restartAgent } from "./orchestrator"
+
+type Shell = PluginInput["$"]
+
+export class Watchdog {
+  private restarts = new Map<string, number>()
+  private misses = new Map<string, number>()
+  private gaveUp = new Set<string>()
+  private timer: ReturnType<typeof setInterval> | null = null
+  private ticking = false
+
+  constructor(
+    private $: Shell,
+    private backend: ProcessBackend,
+    private registry: AgentRegistry,
+    private emitter: LifecycleEmitter,
+    private maxRestarts: number,
+    private ports: PortRange,
+  ) {}
+
+  start(intervalMs: number): void {
+    if (this.timer) return
+    this.timer = setInterval(() => {
+      this.tick().catch(() => {})
+    }, intervalMs)
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+
+  /**
+   * Restart count for an agent (0 if never restarted).
+   */
+  restartCount(issueId: string): number {
+    return this.restarts.get(issueId) ?? 0
+  }
+
+  /**
+   * Check every registered agent once, restarting dead servers.
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return
+    this.ticking = true
+    try {
+      // Forget agents that have been cleaned up
+      for (const issueId of this.restarts.keys()) {
+        if (!this.registry.has(issueId)) this.forget(issueId)
+      }
+
+      for (const [issueId, agent] of [...this.registry.entries()]) {
+        if (this.gaveUp.has(issueId) || agent.parkedAt) continue
+
+        const processAlive = await this.backend.isAlive(agent.tmuxSession)
+        const serverUp = await isServerUp(agent.port)
+
+        let reason: string | null = null
+        if (processAlive && !serverUp) {
+          // Allow one missed check — the server may be mid-restart or busy
+          const misses = (this.misses.get(issueId) ?? 0) + 1
+          this.misses.set(issueId, misses)
+          if (misses >= 2) reason = `port ${agent.port} closed while ${this.backend.kind} alive`
+        } else if (!processAlive && agent.worktreePath && existsSync(agent.worktreePath)) {
+          reason = `${this.backend.kind} process gone, worktree remains`
+        } else {
+          this.misses.delete(issueId)
+        }
+        if (!reason) continue
+
+        const count = this.restartCount(issueId)
+        if (count >= this.maxRestarts) {
+          this.gaveUp.add(issueId)
+          await this.emitter.emit("agent:errored", {
+            issueId,
+            branch: agent.branch,
+            port: agent.port,
+            error: `opencode serve died (${reason}); restart limit of ${this.maxRestarts} reached`,
+          })
+          continue
+        }
+
+        this.restarts.set(issueId, count + 1)
+        this.misses.delete(issueId)
+        const result = JSON.parse(
+          await restartAgent(this.$, this.backend, this.registry, this.emitter, issueId, reason, this.ports),
+        )
+        if (result.status === "error") {
+          await this.emitter.emit("agent:errored", {
+            issueId,
+            branch: agent.branch,
+            port: agent.port,
+            error: `Watchdog restart ${count + 1}/${this.maxRestarts} failed: ${result.error}`,
+          })
+        }
+      }
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  private forget(issueId: string): void {
+    this.restarts.delete(issueId)
+    this.misses.delete(issueId)
+    this.gaveUp.delete(issueId)
+  }
+}